@@ -0,0 +1,106 @@
+/**
+ * Abgleich der deutschen und englischen Datendateien je Datenmodus.
+ *
+ * Aufruf:
+ *   npm run check:translations -- [--mode produkte] [--pack datenpaket.json] [--summary] [--strict]
+ *
+ * Mit --pack werden die Modi eines Datenpakets statt der gebündelten Modi geprüft
+ * (Paket mit "modes", einzelne Datendateien enthalten nur eine Sprache).
+ * Fortschritt und Bericht gehen wie bei den anderen Skripten auf stderr.
+ * Exit-Code 1 bei fehlenden Nodes, abweichender Struktur oder Kategorien,
+ * mit --strict auch bei fehlenden oder unübersetzten Tooltips.
+ */
+import { readFileSync } from 'node:fs';
+import { bundledDataModes } from '../src/data/data-sources';
+import { DataModeDefinition, parseDataPack } from '../src/tools/data-pack';
+import { compareLanguages, countIssuesByKind } from '../src/tools/finanzhaus-consistency';
+
+const USAGE = 'Aufruf: npm run check:translations -- [--mode <modus>] [--pack <datenpaket.json>] [--summary] [--strict]';
+
+function main(args: string[]): number {
+  let modeId: string | null = null;
+  let packFile: string | null = null;
+  let summary = false;
+  let strict = false;
+
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+    if (arg === '--mode' || arg === '--pack') {
+      const value = args[++i];
+      if (!value || value.startsWith('--')) {
+        console.error(`Wert für ${arg} fehlt\n${USAGE}`);
+        return 1;
+      }
+      if (arg === '--mode') modeId = value;
+      else packFile = value;
+    } else if (arg === '--summary') {
+      summary = true;
+    } else if (arg === '--strict') {
+      strict = true;
+    } else {
+      console.error(`Unbekanntes Argument "${arg}"\n${USAGE}`);
+      return 1;
+    }
+  }
+
+  let modes: DataModeDefinition[] = bundledDataModes;
+  if (packFile) {
+    const json = JSON.parse(readFileSync(packFile, 'utf-8'));
+    // Eine einzelne Datendatei würde als Modus mit nur einer Sprache gelesen und nie geprüft
+    if (typeof json !== 'object' || json === null || !('modes' in json)) {
+      console.error(`${packFile}: kein Datenpaket mit "modes" – der Abgleich braucht Modi mit deutschen und englischen Daten`);
+      return 1;
+    }
+    modes = parseDataPack(json, { mode: 'produkte', language: 'de' }).pack.modes;
+  }
+  if (modeId) {
+    modes = modes.filter(m => m.id === modeId);
+    if (modes.length === 0) {
+      console.error(`Unbekannter Datenmodus "${modeId}"`);
+      return 1;
+    }
+  }
+
+  let failed = false;
+  let checked = 0;
+
+  for (const { id: mode, data } of modes) {
+    const { de, en } = data;
+    if (!de || !en) {
+      console.error(`${mode}: übersprungen, enthält nicht beide Sprachen`);
+      continue;
+    }
+    checked++;
+
+    const issues = compareLanguages(de, en);
+    const counts = countIssuesByKind(issues);
+
+    if (!summary) {
+      for (const issue of issues) {
+        console.error(`${mode}/${issue.language}: [${issue.kind}] ${issue.path}: ${issue.message}`);
+      }
+    }
+    console.error(
+      `${mode}: ${counts.missing} fehlende Nodes, ${counts.structure} Strukturabweichungen, ` +
+      `${counts.categories} Kategorieabweichungen, ${counts.tooltip} Tooltips nicht übersetzt`
+    );
+
+    if (counts.missing + counts.structure + counts.categories > 0 || (strict && counts.tooltip > 0)) {
+      failed = true;
+    }
+  }
+
+  if (checked === 0) {
+    console.error('Kein Datenmodus mit deutschen und englischen Daten gefunden');
+    return 1;
+  }
+
+  return failed ? 1 : 0;
+}
+
+try {
+  process.exitCode = main(process.argv.slice(2));
+} catch (e) {
+  console.error(`Abgleich fehlgeschlagen: ${e instanceof Error ? e.message : e}`);
+  process.exitCode = 1;
+}
@@ -0,0 +1,50 @@
+/**
+ * Export einer Finanzhaus-Datendatei in das Format der Excel-Vorlage.
+ *
+ * Aufruf:
+ *   npm run export:excel -- src/data/finanzhaus-data-new.de.json [-o finanzhaus.xlsx]
+ *
+ * Ohne -o wird neben der JSON-Datei eine gleichnamige .xlsx-Datei geschrieben.
+ */
+import { readFileSync, writeFileSync } from 'node:fs';
+import { exportWorkbook } from '../src/tools/excel-export';
+import { FinanzDataFile, mapRootNode } from '../src/tools/finanzhaus-format';
+
+function main(args: string[]): number {
+  let input: string | null = null;
+  let output: string | null = null;
+
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+    if (arg === '-o' || arg === '--output') {
+      output = args[++i] ?? null;
+    } else {
+      input = arg;
+    }
+  }
+
+  if (!input) {
+    console.error('Aufruf: npm run export:excel -- <datei.json> [-o <datei.xlsx>]');
+    return 1;
+  }
+
+  const data = JSON.parse(readFileSync(input, 'utf-8')) as FinanzDataFile;
+  const result = exportWorkbook(mapRootNode(data), data.categories);
+
+  for (const warning of result.warnings) {
+    console.warn(`Warnung: ${warning}`);
+  }
+
+  const target = output ?? input.replace(/\.json$/, '') + '.xlsx';
+  writeFileSync(target, Buffer.from(result.data));
+  console.error(`${input} → ${target}`);
+
+  return 0;
+}
+
+try {
+  process.exitCode = main(process.argv.slice(2));
+} catch (e) {
+  console.error(`Export fehlgeschlagen: ${e instanceof Error ? e.message : e}`);
+  process.exitCode = 1;
+}
@@ -0,0 +1,55 @@
+/**
+ * Import der Excel-Vorlage in eine Finanzhaus-Datendatei.
+ *
+ * Aufruf:
+ *   npm run import:excel -- [Importdatei.xlsx] [-o src/data/finanzhaus-data-new.de.json] [--icons-from datei.json]
+ *
+ * Ohne -o wird das Ergebnis auf stdout ausgegeben. Warnungen gehen auf stderr.
+ */
+import { readFileSync, writeFileSync } from 'node:fs';
+import { importWorkbook } from '../src/tools/excel-import';
+import { FinanzDataFile, collectIcons } from '../src/tools/finanzhaus-format';
+
+function main(args: string[]): number {
+  let input = 'Importdatei.xlsx';
+  let output: string | null = null;
+  let iconsFrom: string | null = null;
+
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+    if (arg === '-o' || arg === '--output') {
+      output = args[++i] ?? null;
+    } else if (arg === '--icons-from') {
+      iconsFrom = args[++i] ?? null;
+    } else {
+      input = arg;
+    }
+  }
+
+  const icons = iconsFrom
+    ? collectIcons(JSON.parse(readFileSync(iconsFrom, 'utf-8')) as FinanzDataFile)
+    : undefined;
+
+  const result = importWorkbook(readFileSync(input), { icons });
+
+  for (const warning of result.warnings) {
+    console.warn(`Warnung: ${warning}`);
+  }
+
+  const json = JSON.stringify(result.data, null, 2) + '\n';
+  if (output) {
+    writeFileSync(output, json, 'utf-8');
+    console.error(`${input} → ${output} (${result.skippedRows} Zeilen übersprungen)`);
+  } else {
+    process.stdout.write(json);
+  }
+
+  return 0;
+}
+
+try {
+  process.exitCode = main(process.argv.slice(2));
+} catch (e) {
+  console.error(`Import fehlgeschlagen: ${e instanceof Error ? e.message : e}`);
+  process.exitCode = 1;
+}
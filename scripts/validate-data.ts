@@ -0,0 +1,77 @@
+/**
+ * Schema-Prüfung der Finanzhaus-Datendateien.
+ *
+ * Aufruf:
+ *   npm run validate:data -- [datei.json ...] [--strict]
+ *
+ * Ohne Dateiangabe werden alle src/data/finanzhaus-data*.json geprüft.
+ * Bilder (image, Kachel-Bilder) werden im Projektverzeichnis gesucht, z.B. "./assets/…".
+ * Exit-Code 1 bei Fehlern, mit --strict auch bei Warnungen.
+ */
+import { existsSync, readFileSync, readdirSync } from 'node:fs';
+import { join } from 'node:path';
+import { formatIssue, validateFinanzData } from '../src/tools/finanzhaus-validator';
+
+const DATA_DIR = 'src/data';
+
+// Externe URLs werden nicht geprüft, Pfade wie im Browser relativ zur Anwendung (= Projektverzeichnis)
+function imageExists(image: string): boolean {
+  if (/^[a-z]+:/i.test(image)) return true;
+  return existsSync(image.replace(/^\.?\//, ''));
+}
+
+function main(args: string[]): number {
+  let strict = false;
+  const files: string[] = [];
+
+  for (const arg of args) {
+    if (arg === '--strict') {
+      strict = true;
+    } else {
+      files.push(arg);
+    }
+  }
+
+  if (files.length === 0) {
+    files.push(
+      ...readdirSync(DATA_DIR)
+        .filter(name => /^finanzhaus-data.*\.json$/.test(name))
+        .sort()
+        .map(name => join(DATA_DIR, name))
+    );
+  }
+
+  let errors = 0;
+  let warnings = 0;
+
+  for (const file of files) {
+    let data: unknown;
+    try {
+      data = JSON.parse(readFileSync(file, 'utf-8'));
+    } catch (e) {
+      console.error(`${file}: Fehler: ${e instanceof Error ? e.message : e}`);
+      errors++;
+      continue;
+    }
+
+    const issues = validateFinanzData(data, { imageExists });
+    for (const issue of issues) {
+      console.error(`${file}: ${formatIssue(issue)}`);
+      if (issue.severity === 'error') errors++;
+      else warnings++;
+    }
+    if (issues.length === 0) {
+      console.error(`${file}: OK`);
+    }
+  }
+
+  console.error(`${files.length} Dateien geprüft, ${errors} Fehler, ${warnings} Warnungen`);
+  return errors > 0 || (strict && warnings > 0) ? 1 : 0;
+}
+
+try {
+  process.exitCode = main(process.argv.slice(2));
+} catch (e) {
+  console.error(`Prüfung fehlgeschlagen: ${e instanceof Error ? e.message : e}`);
+  process.exitCode = 1;
+}
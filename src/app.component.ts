@@ -1,6 +1,6 @@
-import { Component, signal, computed, inject, effect } from '@angular/core';
+import { ApplicationRef, Component, signal, computed, inject, effect, untracked } from '@angular/core';
 import { CommonModule } from '@angular/common';
-import { DataService, Node, CategoryId, Category, DataMode } from './services/data.service';
+import { DataService, Node, CategoryId, Category, DataMode, getCategoryStyle } from './services/data.service';
 
 // Debug-Panel Größen-Einstellungen
 export interface NodeSizeConfig {
@@ -25,27 +25,109 @@ const DEFAULT_NODE_SIZES: NodeSizeConfig = {
   level3TextSize: 0.625,
 };
 
-// Default-Positionen für Produkte-Modus (aus externer JSON-Datei)
-import produkteDefaultState from './data/product_default.json';
+// Darstellung je Ebene für den Bild-Export (Werte in rem wie .node--level-N in styles.css;
+// Kugel- und Schriftgrößen kommen aus den Debug-Größen)
+interface ExportLevelStyle {
+  borderWidth: number;
+  iconSize: number;
+  /** Piktogramm: fest oder Kugelgröße abzüglich Rand (null) */
+  imageSize: number | null;
+  fontWeight: number;
+  labelGap: number;
+  labelMaxWidth: number | null;
+}
+
+const EXPORT_LEVEL_STYLES: ExportLevelStyle[] = [
+  { borderWidth: 0.25, iconSize: 3, imageSize: null, fontWeight: 700, labelGap: 0.5, labelMaxWidth: null },
+  { borderWidth: 0.1875, iconSize: 2.5, imageSize: null, fontWeight: 600, labelGap: 0.5, labelMaxWidth: null },
+  { borderWidth: 0.46875, iconSize: 2, imageSize: 4, fontWeight: 500, labelGap: 0.25, labelMaxWidth: null },
+  { borderWidth: 0.25, iconSize: 1.25, imageSize: 3, fontWeight: 500, labelGap: 0.15, labelMaxWidth: 6.25 }
+];
+
+// Randfarbe des Root (.l0-border)
+const EXPORT_ROOT_BORDER_COLOR = '#197379';
+
+// Live-Region: so viele Node-Labels werden einzeln angesagt, darüber nur die Anzahl
+const ANNOUNCE_MAX_LABELS = 3;
+
+// Tastatur-Navigation: Karte nachführen, wenn der Node außerhalb dieses Anteils des Fensters liegt
+const KEYBOARD_PAN_THRESHOLD = 0.6;
+
+// Breite der Karte im PDF der Beratungszusammenfassung (Pixel, genügt für den Druck)
+const SUMMARY_MAP_WIDTH = 1600;
+
+// Druckbereich in CSS-Pixeln: A4 quer abzüglich 10 mm Rand (@page in styles.css)
+const PRINT_PAGE_WIDTH = 1046;
+const PRINT_PAGE_HEIGHT = 718;
+// Im Druck immer weißer Hintergrund (unabhängig vom Theme)
+const PRINT_BACKGROUND_COLOR = '#ffffff';
+
+// Eintrag der Gliederung im Druck (sichtbare Nodes in Baumreihenfolge)
+interface PrintOutlineItem {
+  label: string;
+  level: number;
+}
+
+type MapExportFormat = 'svg' | 'png';
+type MapExportArea = 'viewport' | 'full';
+
+interface LayoutImportReport {
+  fileName: string;
+  error: string | null;
+  /** Node- und Kategorie-IDs aus der Datei, die es in den aktuellen Daten nicht gibt */
+  unknownIds: string[];
+}
+
 import { I18nService } from './services/i18n.service';
 import { ForceLayoutService } from './services/force-layout.service';
 import { FinanzhausComponent } from './components/finanzhaus.component';
+import { SearchComponent } from './components/search.component';
+import { buildSearchIndex } from './tools/node-search';
+import { ViewLink, encodeViewLink, parseViewLink, resolveViewLink } from './tools/view-link';
+import { Session, SessionService } from './services/session.service';
+import { DATA_MODE_ENTRY, DEBUG_SIZES_ENTRY, PersistenceService } from './services/persistence.service';
+import { THEME_CHOICES, ThemeChoice, ThemeService } from './services/theme.service';
+import { ViewState, createLayoutFile, findUnknownLayoutIds, parseLayoutFile, removeLayoutIds } from './tools/layout-file';
+import { SessionsComponent } from './components/sessions.component';
+import { TourStepRef, ToursComponent } from './components/tours.component';
+import { TourService } from './services/tour.service';
+import { Tour, TourStep, createTourFile } from './tools/tour-file';
+import { NODE_STATUSES, NodeStatus, STATUS_LEVEL, StatusCounts, collectStatusPath, nextNodeStatus, rollUpStatuses } from './tools/node-status';
+import { OutlineComponent } from './components/outline.component';
+import { ExportArea, ExportLine, ExportNode, ExportScene, embedImages, getRasterSize, getSceneBounds, renderJpeg, renderPng, renderSvg } from './tools/map-export';
+import { createPdf } from './tools/pdf-document';
+import { buildSummaryBlocks } from './tools/consultation-summary';
 
 @Component({
   selector: 'app-root',
   standalone: true,
-  imports: [CommonModule, FinanzhausComponent],
-  templateUrl: './app.component.html'
+  imports: [CommonModule, FinanzhausComponent, SearchComponent, SessionsComponent, ToursComponent, OutlineComponent],
+  templateUrl: './app.component.html',
+  host: {
+    // Auch beim Drucken über das Browser-Menü bzw. Strg+P
+    '(window:beforeprint)': 'enterPrintMode()',
+    '(window:afterprint)': 'exitPrintMode()',
+    // Präsentation: Schritte auch weiterschalten, wenn die Karte nicht fokussiert ist (z.B. Presenter)
+    '(window:keydown)': 'onTourKeydown($event)'
+  }
 })
 export class AppComponent {
   private dataService = inject(DataService);
   private forceLayout = inject(ForceLayoutService);
+  private appRef = inject(ApplicationRef);
+  private sessionService = inject(SessionService);
+  private tourService = inject(TourService);
+  private persistence = inject(PersistenceService);
+  theme = inject(ThemeService);
   i18n = inject(I18nService);
 
   // Data - computed to react to language changes
   rootNode = computed(() => this.dataService.getRootNode());
   mainNodes = computed(() => this.rootNode().children || []);
-  categories = computed(() => this.dataService.getCategories());
+  // Kategorien mit den Farben des gewählten Themes
+  categories = computed(() => this.theme.applyToCategories(this.dataService.getCategories()));
+  categoryMarkers = computed(() => this.theme.getCategoryMarkers(this.categories()));
+  searchIndex = computed(() => buildSearchIndex(this.rootNode()));
 
   // Force layout positions
   forcePositions = this.forceLayout.nodePositions;
@@ -60,25 +142,10 @@ export class AppComponent {
   hoveredL2NodeId = signal<string | null>(null);  // Für L2-Highlight im Finanzhaus
   selectedInfoNode = signal<Node | null>(null);  // Für Click-Tooltip (L3+)
 
-  // L2-IDs die im Finanzhaus existieren (für Hover-Highlight)
-  private readonly FINANZHAUS_L2_IDS = new Set([
-    'l2_gruendung_nachfolge_existenzgruendung_finanzieren',
-    'l2_gruendung_nachfolge_unternehmensnachfolge_regeln',
-    'l2_versicherung_notfall_regeln',
-    'l2_versicherung_sachwerte_absichern',
-    'l2_versicherung_vermoegenswerte_absichern',
-    'l2_vorsorge_und_mitarbeiterbindung_mitarbeiter_binden',
-    'l2_vorsorge_und_mitarbeiterbindung_betriebliche_altersvorsorge_anbieten',
-    'l2_vermoegen_eigenkapital_vermoegen_ek_aufbauen_und_anlegen',
-    'l2_vermoegen_eigenkapital_vermoegen_ek_verwenden',
-    'l2_auslandsgeschaeft_warengeschaefte_und_dienstleistungen_abwickeln',
-    'l2_auslandsgeschaeft_warengeschaefte_und_dienstleistungen_finanzieren',
-    'l2_auslandsgeschaeft_waehrungsschwankungen_absichern',
-    'l2_finanzierung_investitionen_finanzieren',
-    'l2_finanzierung_finanzierungen_optimieren',
-    'l2_zahlungsverkehr_zahlungsverkehr_im_sepa_raum_abwickeln',
-    'l2_zahlungsverkehr_liquiditaet_vorhalten_und_absichern',
-  ]);
+  // L2-Nodes mit Kachel im Finanzhaus (für Hover-Highlight, aus categories[].house.tiles)
+  private finanzhausTileNodeIds = computed(() =>
+    new Set(this.categories().flatMap(c => c.house?.tiles?.map(tile => tile.node) ?? []))
+  );
   private justClickedNode = false;  // Flag um handleBackgroundClick zu ignorieren
   private backgroundMouseDownPos: { x: number; y: number } | null = null;  // Position beim mousedown auf Hintergrund
 
@@ -92,28 +159,37 @@ export class AppComponent {
   // Gespeicherter Zustand vor Fokus-Modus (für Wiederherstellung)
   private expandedBeforeFocus: Set<string> | null = null;
 
-  // Findet das passende Piktogramm-Bild für das Info-Panel (L2 → L1 → L0 Fallback)
+  // Piktogramm für das Info-Panel (eigenes oder vom nächsten Vorfahren geerbtes Bild)
   getInfoPanelImagePath(): string | null {
     const node = this.selectedInfoNode();
-    if (!node) return null;
-
-    const path = this.findPathToNode(this.rootNode(), node.id);
-    if (!path) return null;
-
-    // Vom nächsten Vorfahren zum entferntesten suchen: L2 → L1 (L0 zu generisch)
-    for (let i = path.length - 2; i >= 0; i--) {
-      const ancestorId = path[i];
-      const l2Img = this.l2ImageMap[ancestorId];
-      if (l2Img) return l2Img;
-      const l1Img = this.l1ImageMap[ancestorId];
-      if (l1Img) return l1Img;
-    }
-
-    return null;
+    return node ? this.getNodeImage(node) : null;
   }
   tooltipPosition = signal<{ x: number; y: number; showBelow: boolean } | null>(null);
   finanzhausVisible = signal<boolean>(true);
 
+  // Per Tastatur ausgewählter Node (Fokus-Ring); ein Mausklick in die Karte hebt die Auswahl auf
+  keyboardNodeId = signal<string | null>(null);
+
+  // Text der Live-Region für Screenreader (Auf-/Zuklappen, Filter)
+  announcement = signal<string>('');
+  private announcedExpanded: Set<string> | null = null;
+  private announcedCategories: Set<CategoryId> | null = null;
+
+  // Bedarfs-Checkliste: Status je Node (ab L3), gespeichert mit der Ansicht
+  nodeStatuses = signal<Record<string, NodeStatus>>({});
+  readonly nodeStatusOptions = NODE_STATUSES;
+  // Status-Filter: nur Nodes mit diesem Status (und ihre Vorfahren) bleiben hervorgehoben
+  statusFilter = signal<NodeStatus | null>(null);
+  // Anzahl der Status unter jedem L1/L2 (Roll-up)
+  statusRollUp = computed(() => rollUpStatuses(this.rootNode(), this.nodeStatuses()));
+  statusFilterPath = computed(() => {
+    const status = this.statusFilter();
+    return status ? collectStatusPath(this.rootNode(), this.nodeStatuses(), status) : null;
+  });
+
+  // Ansicht: radiale MindMap oder eingerückte Gliederung (gleicher Zustand)
+  viewMode = signal<'map' | 'outline'>('map');
+
   // Focus Mode (Lupenfunktion) - generisch für alle Level
   // Multi-Fokus: Array von fokussierten Nodes (nicht im localStorage gespeichert!)
   focusedNodes = signal<Array<{ node: Node; parent: Node; root: Node; level: number }>>([]);
@@ -158,76 +234,202 @@ export class AppComponent {
   private savedZoomLevel: number | null = null;
   private savedPanOffset: { x: number; y: number } | null = null;
 
-  // localStorage Key für Persistenz (dynamisch pro Datenmodus)
-  private readonly STORAGE_KEY_PREFIX = 'finanzhaus-view-state';
-  private readonly DATAMODE_STORAGE_KEY = 'finanzhaus-datamode';
-
-  // Datenmodus (Beratung / Produkte)
+  // Datenmodus (Beratung, Produkte und Modi aus Datenpaketen)
   dataMode = this.dataService.dataMode;
+  dataModes = this.dataService.dataModes;
+  themeChoices = THEME_CHOICES;
+
+  // Datenpaket (zur Laufzeit geladen) mit Lade- und Fehlerzustand
+  dataPackName = this.dataService.dataPackName;
+  isDataLoading = this.dataService.isLoading;
+  dataLoadError = this.dataService.loadError;
+
+  // Beratungsmappen (benannte Ansichten, IndexedDB)
+  sessionsPanelOpen = signal<boolean>(false);
+  activeSessionId = signal<string | null>(null);
+
+  // Präsentationen (Touren aus Schritten); während des Abspielens Tour und aktueller Schritt
+  toursPanelOpen = signal<boolean>(false);
+  tourPlayback = signal<{ tourId: string; index: number } | null>(null);
+  playingTour = computed(() => {
+    const playback = this.tourPlayback();
+    return playback ? this.tourService.tours().find(t => t.id === playback.tourId) ?? null : null;
+  });
+  currentTourStep = computed(() => this.playingTour()?.steps[this.tourPlayback()!.index] ?? null);
+
+  // Ergebnis des letzten Layout-Imports (Fehler bzw. unbekannte IDs)
+  layoutImportReport = signal<LayoutImportReport | null>(null);
 
   // Debug-Panel für Node-Größen
   debugPanelOpen = signal<boolean>(false);
+
+  // Bild-Export (SVG/PNG) der Karte
+  exportPanelOpen = signal<boolean>(false);
+  exportArea = signal<MapExportArea>('viewport');
+  isExporting = signal<boolean>(false);
+
+  // Druckansicht: ohne Bedienelemente, alle aufgeklappten Nodes auf einer Seite, optional mit Gliederung
+  printMode = signal<boolean>(false);
+  printOutlineEnabled = signal<boolean>(false);
+  printOutline = signal<PrintOutlineItem[]>([]);
+  private viewBeforePrint: { zoomLevel: number; panOffset: { x: number; y: number } } | null = null;
   nodeSizes = signal<NodeSizeConfig>({ ...DEFAULT_NODE_SIZES });
-  backgroundColor = signal<string>('#f9f6f1');
-  private readonly DEBUG_SIZES_STORAGE_KEY = 'finanzhaus-debug-sizes';
-  private readonly BACKGROUND_COLOR_STORAGE_KEY = 'finanzhaus-background-color';
 
-  // Flag für automatische Kreisanordnung im Beratung-Modus beim ersten Laden
-  private needsBeratungInitialArrangement = false;
+  // Ansicht aus einem geteilten Link (#v=1&…), ersetzt gespeicherten Zustand bzw. Auto-Fit beim Laden
+  private pendingViewLink: ViewLink | null = null;
+  linkCopied = signal<boolean>(false);
+
+  // Erst nach dem Laden des gespeicherten Zustands speichern (sonst überschreibt die leere Startansicht ihn)
+  private viewStateLoaded = false;
 
   constructor() {
     // Debug-Größen aus localStorage laden
     this.loadDebugSizesFromStorage();
-    // Hintergrundfarbe aus localStorage laden
-    this.loadBackgroundColorFromStorage();
     // Datenmodus aus localStorage laden (vor dem State laden!)
     this.loadDataModeFromStorage();
-    // Zustand aus localStorage laden
-    this.loadStateFromStorage();
+    // Geteilter Link überschreibt Datenmodus und Sprache
+    this.readViewLinkFromUrl();
+    // Konfiguriertes Datenpaket laden (bis dahin gelten die gebündelten Daten)
+    const dataPackUrl = this.dataService.getConfiguredDataPackUrl();
+    if (dataPackUrl) {
+      // Zustand erst mit den Daten des Pakets laden: sonst würden dessen Node-IDs als unbekannt entfernt
+      this.dataService.loadDataPackFromUrl(dataPackUrl).then(() => this.loadStateFromStorage());
+    } else {
+      // Zustand aus localStorage laden
+      this.loadStateFromStorage();
+    }
   }
 
   private loadDataModeFromStorage(): void {
+    // Auch unbekannte Modi übernehmen: sie können aus einem noch ladenden Datenpaket stammen
+    const storedMode = this.persistence.load(DATA_MODE_ENTRY);
+    if (storedMode) {
+      this.dataService.setDataMode(storedMode);
+    }
+  }
+
+  private readViewLinkFromUrl(): void {
     try {
-      const storedMode = localStorage.getItem(this.DATAMODE_STORAGE_KEY);
-      if (storedMode === 'beratung' || storedMode === 'produkte') {
-        this.dataService.setDataMode(storedMode);
+      const link = parseViewLink(window.location.hash);
+      if (!link) return;
+
+      this.pendingViewLink = link;
+      this.dataService.setDataMode(link.dataMode);
+      // Angefragten Modus speichern: dataMode() fällt bei einem noch ladenden Datenpaket auf den ersten Modus zurück
+      this.persistence.save(DATA_MODE_ENTRY, link.dataMode);
+      if (link.language === 'de' || link.language === 'en') {
+        this.i18n.setLanguage(link.language);
       }
+
+      // Hash entfernen, damit ein Neuladen die inzwischen geänderte Ansicht nicht überschreibt
+      history.replaceState(null, '', window.location.pathname + window.location.search);
     } catch (e) {
-      console.warn('Failed to load data mode from localStorage:', e);
+      console.warn('Failed to read view link from URL:', e);
     }
   }
 
-  private saveDataModeToStorage(): void {
+  // Fokus-Einträge (Node, Parent, L1, Ebene) zu Node-IDs; unbekannte IDs und der Root entfallen
+  private resolveFocusedNodes(ids: string[]): Array<{ node: Node; parent: Node; root: Node; level: number }> {
+    const root = this.rootNode();
+    const focused: Array<{ node: Node; parent: Node; root: Node; level: number }> = [];
+    for (const id of ids) {
+      const node = this.findNodeByIdRecursive(root, id);
+      const path = this.findPathToNode(root, id);
+      if (!node || !path || path.length < 2) continue;
+      const l1Node = this.findNodeByIdRecursive(root, path[1])!;
+      focused.push({ node, parent: this.findParentOfNode(root, node) ?? root, root: l1Node, level: path.length - 1 });
+    }
+    return focused;
+  }
+
+  // Wendet den Link an, sobald sein Datenmodus verfügbar ist (ggf. erst nach dem Laden des Datenpakets)
+  private applyPendingViewLink(): boolean {
+    const link = this.pendingViewLink;
+    if (!link || link.dataMode !== this.dataMode()) return false;
+    this.pendingViewLink = null;
+
+    const categoryIds = new Set(this.categories().map(c => c.id));
+    this.activeCategories.set(new Set(link.activeCategories.filter(id => categoryIds.has(id))));
+
+    const root = this.rootNode();
+    const { nodes, treeChanged } = resolveViewLink(link, root);
+    if (treeChanged) {
+      // Positionen im Baum passen nicht mehr: Nodes und Ausschnitt verwerfen
+      console.warn('View link was created for different data, only filters are restored');
+      return false;
+    }
+
+    this.expandedNodes.set(new Set(nodes.expandedNodes));
+    this.selectedL2NodeIds.set(new Set(nodes.selectedL2NodeIds));
+
+    const focused = this.resolveFocusedNodes(nodes.focusedNodeIds);
+    if (focused.length > 0) {
+      this.expandedBeforeFocus = new Set(nodes.expandedNodes);
+    }
+    this.focusedNodes.set(focused);
+
+    if (link.zoomLevel !== null) {
+      this.zoomLevel.set(Math.min(this.ZOOM_MAX, Math.max(this.ZOOM_MIN, link.zoomLevel)));
+    }
+    if (link.panOffset) {
+      this.panOffset.set(link.panOffset);
+    }
+    return true;
+  }
+
+  // Initiale Ansicht ohne gespeicherten Zustand: geteilter Link, sonst Auto-Fit
+  private showInitialView(): void {
+    if (!this.applyPendingViewLink()) {
+      this.fitViewToL0L1();
+    }
+  }
+
+  // Link auf die aktuelle Ansicht in die Zwischenablage kopieren
+  async copyViewLink(): Promise<void> {
+    const hash = encodeViewLink({
+      dataMode: this.dataMode(),
+      language: this.i18n.language(),
+      expandedNodes: Array.from(this.expandedNodes()),
+      activeCategories: Array.from(this.activeCategories()),
+      selectedL2NodeIds: Array.from(this.selectedL2NodeIds()),
+      focusedNodeIds: this.focusedNodes().map(f => f.node.id),
+      zoomLevel: this.zoomLevel(),
+      panOffset: this.panOffset()
+    }, this.rootNode());
+    const url = `${window.location.origin}${window.location.pathname}${window.location.search}#${hash}`;
+
     try {
-      localStorage.setItem(this.DATAMODE_STORAGE_KEY, this.dataMode());
+      await navigator.clipboard.writeText(url);
+      this.linkCopied.set(true);
+      setTimeout(() => this.linkCopied.set(false), 2000);
     } catch (e) {
-      console.warn('Failed to save data mode to localStorage:', e);
+      // Ohne Zugriff auf die Zwischenablage (z.B. kein HTTPS): Link zum manuellen Kopieren anzeigen
+      console.warn('Failed to copy view link:', e);
+      window.prompt(this.t('controls.copyLinkManually'), url);
     }
   }
 
+  private saveDataModeToStorage(): void {
+    this.persistence.save(DATA_MODE_ENTRY, this.dataMode());
+  }
+
   // Debug-Panel Methoden
   private loadDebugSizesFromStorage(): void {
-    try {
-      const stored = localStorage.getItem(this.DEBUG_SIZES_STORAGE_KEY);
-      if (stored) {
-        const sizes = JSON.parse(stored) as Partial<NodeSizeConfig>;
-        this.nodeSizes.set({ ...DEFAULT_NODE_SIZES, ...sizes });
-      }
-    } catch (e) {
-      console.warn('Failed to load debug sizes from localStorage:', e);
+    const sizes = this.persistence.load(DEBUG_SIZES_ENTRY) as Partial<NodeSizeConfig> | null;
+    if (sizes) {
+      this.nodeSizes.set({ ...DEFAULT_NODE_SIZES, ...sizes });
     }
   }
 
   private saveDebugSizesToStorage(): void {
-    try {
-      localStorage.setItem(this.DEBUG_SIZES_STORAGE_KEY, JSON.stringify(this.nodeSizes()));
-    } catch (e) {
-      console.warn('Failed to save debug sizes to localStorage:', e);
-    }
+    this.persistence.save(DEBUG_SIZES_ENTRY, { ...this.nodeSizes() });
   }
 
   toggleDebugPanel(): void {
     this.debugPanelOpen.set(!this.debugPanelOpen());
+    this.sessionsPanelOpen.set(false);
+    this.exportPanelOpen.set(false);
+    this.toursPanelOpen.set(false);
   }
 
   updateNodeSize(key: keyof NodeSizeConfig, value: number): void {
@@ -241,38 +443,240 @@ export class AppComponent {
     this.saveDebugSizesToStorage();
   }
 
-  // Hintergrundfarbe Methoden
-  private loadBackgroundColorFromStorage(): void {
+  // Excel-Export des aktuellen Baums im Format der Importdatei (xlsx wird erst bei Bedarf geladen)
+  async exportExcel(): Promise<void> {
     try {
-      const stored = localStorage.getItem(this.BACKGROUND_COLOR_STORAGE_KEY);
-      if (stored) {
-        this.backgroundColor.set(stored);
+      const { exportWorkbook, EXCEL_MIME_TYPE } = await import('./tools/excel-export');
+      const result = exportWorkbook(this.rootNode(), this.dataService.getCategories());
+      for (const warning of result.warnings) {
+        console.warn('Excel export:', warning);
       }
+      const fileName = `finanzhaus-${this.dataMode()}-${this.i18n.language()}.xlsx`;
+      this.downloadFile(new Blob([result.data], { type: EXCEL_MIME_TYPE }), fileName);
     } catch (e) {
-      console.warn('Failed to load background color from localStorage:', e);
+      console.warn('Failed to export Excel file:', e);
     }
   }
 
-  private saveBackgroundColorToStorage(): void {
+  private downloadFile(blob: Blob, fileName: string): void {
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = fileName;
+    link.click();
+    // Erst nach dem Klick freigeben: sofortiges Freigeben bricht den Download in manchen Browsern (Safari) ab
+    setTimeout(() => URL.revokeObjectURL(url));
+  }
+
+  toggleExportPanel(): void {
+    this.exportPanelOpen.set(!this.exportPanelOpen());
+    this.sessionsPanelOpen.set(false);
+    this.debugPanelOpen.set(false);
+    this.toursPanelOpen.set(false);
+  }
+
+  // Karte als SVG bzw. PNG herunterladen: aktueller Ausschnitt oder alle sichtbaren Nodes
+  async exportMap(format: MapExportFormat): Promise<void> {
+    if (this.isExporting()) return;
+    this.isExporting.set(true);
+
+    try {
+      const scene = await embedImages(this.buildExportScene());
+      const area = this.exportArea() === 'viewport' ? this.getViewportArea() : getSceneBounds(scene);
+      if (area.width <= 0 || area.height <= 0) return;
+
+      const svg = renderSvg(scene, area);
+      const fileName = `finanzhaus-${this.dataMode()}.${format}`;
+      if (format === 'svg') {
+        this.downloadFile(new Blob([svg], { type: 'image/svg+xml' }), fileName);
+      } else {
+        this.downloadFile(await renderPng(svg, area), fileName);
+      }
+    } catch (e) {
+      console.warn('Failed to export map:', e);
+    } finally {
+      this.isExporting.set(false);
+    }
+  }
+
+  // Beratungszusammenfassung als PDF: Karte (gewählter Bereich), besprochene Themen, Produkte je Kategorie, Notizen
+  async exportSummary(): Promise<void> {
+    if (this.isExporting()) return;
+    this.isExporting.set(true);
+
     try {
-      localStorage.setItem(this.BACKGROUND_COLOR_STORAGE_KEY, this.backgroundColor());
+      const scene = await embedImages(this.buildExportScene());
+      const area = this.exportArea() === 'viewport' ? this.getViewportArea() : getSceneBounds(scene);
+      let map: { jpeg: Uint8Array; width: number; height: number } | null = null;
+      if (area.width > 0 && area.height > 0) {
+        const scale = Math.min(2, SUMMARY_MAP_WIDTH / area.width);
+        const jpeg = await renderJpeg(renderSvg(scene, area), area, scale);
+        map = { jpeg: new Uint8Array(await jpeg.arrayBuffer()), ...getRasterSize(area, scale) };
+      }
+
+      const session = this.sessionService.sessions().find(s => s.id === this.activeSessionId());
+      const modeLabel = this.dataModes().find(m => m.id === this.dataMode())?.label ?? this.dataMode();
+      const date = new Date().toLocaleDateString(this.i18n.language() === 'de' ? 'de-DE' : 'en-GB');
+      const title = this.t('summary.title');
+      const blocks = buildSummaryBlocks({
+        root: this.rootNode(),
+        categories: this.categories(),
+        activeCategories: [...this.activeCategories()],
+        focusedNodeIds: this.focusedNodes().map(f => f.node.id),
+        markedNodeIds: [...this.selectedL2NodeIds()],
+        infoNodeId: this.selectedInfoNode()?.id ?? null,
+        primaryCategory: node => this.getPrimaryCategory(node),
+        title,
+        subtitle: [session?.name, modeLabel, date].filter(Boolean).join(' · '),
+        map,
+        notes: session?.notes ?? '',
+        t: key => this.t(key)
+      });
+
+      const pdf = createPdf(blocks, { title, footer: `${title} · ${date}` });
+      this.downloadFile(pdf, `finanzhaus-beratung-${new Date().toISOString().slice(0, 10)}.pdf`);
     } catch (e) {
-      console.warn('Failed to save background color to localStorage:', e);
+      console.warn('Failed to export summary:', e);
+    } finally {
+      this.isExporting.set(false);
+    }
+  }
+
+  printMap(): void {
+    this.exportPanelOpen.set(false);
+    window.print();
+  }
+
+  enterPrintMode(): void {
+    if (this.printMode()) return;
+
+    this.viewBeforePrint = { zoomLevel: this.zoomLevel(), panOffset: this.panOffset() };
+    const fit = this.computeZoomToFit(this.getVisiblePositions(), PRINT_PAGE_WIDTH, PRINT_PAGE_HEIGHT);
+    if (fit) {
+      this.zoomLevel.set(fit.zoom);
+      this.panOffset.set({ x: fit.panX, y: fit.panY });
     }
+    // Die Szene des Bild-Exports enthält die sichtbaren Nodes bereits in Baumreihenfolge
+    this.printOutline.set(this.printOutlineEnabled()
+      ? this.buildExportScene().nodes.map(({ label, level }) => ({ label, level }))
+      : []);
+    this.printMode.set(true);
+
+    // Sofort rendern: der Browser erstellt die Druckvorschau direkt nach beforeprint
+    this.appRef.tick();
   }
 
-  updateBackgroundColor(color: string): void {
-    this.backgroundColor.set(color);
-    this.saveBackgroundColorToStorage();
+  exitPrintMode(): void {
+    if (!this.printMode()) return;
+
+    this.printMode.set(false);
+    this.printOutline.set([]);
+    if (this.viewBeforePrint) {
+      this.zoomLevel.set(this.viewBeforePrint.zoomLevel);
+      this.panOffset.set(this.viewBeforePrint.panOffset);
+      this.viewBeforePrint = null;
+    }
   }
 
-  resetBackgroundColor(): void {
-    this.backgroundColor.set('#f9f6f1');
-    this.saveBackgroundColorToStorage();
+  // Sichtbarer Ausschnitt im Koordinatensystem des Force-Layouts
+  // (.mindmap__center liegt in der Fenstermitte, verschoben um panOffset und skaliert mit zoomLevel)
+  private getViewportArea(): ExportArea {
+    const zoom = this.zoomLevel();
+    const pan = this.panOffset();
+    const width = window.innerWidth / zoom;
+    const height = window.innerHeight / zoom;
+    return {
+      x: -(window.innerWidth / 2 + pan.x) / zoom,
+      y: -(window.innerHeight / 2 + pan.y) / zoom,
+      width,
+      height
+    };
   }
 
-  private getStorageKey(): string {
-    return `${this.STORAGE_KEY_PREFIX}-${this.dataMode()}`;
+  // Sichtbare Nodes und Linien nach denselben Regeln wie das nodeTemplate
+  private buildExportScene(): ExportScene {
+    const css = getComputedStyle(document.body);
+    const cssVar = (name: string, fallback: string) => css.getPropertyValue(name).trim() || fallback;
+    const rem = parseFloat(getComputedStyle(document.documentElement).fontSize) || 16;
+    const textPrimary = cssVar('--color-text-primary', '#1e293b');
+    const textSecondary = cssVar('--color-text-secondary', '#64748b');
+    const textMuted = cssVar('--color-text-muted', '#94a3b8');
+
+    const sizes = this.nodeSizes();
+    const nodeSizes = [sizes.level0NodeSize, sizes.level1NodeSize, sizes.level2NodeSize, sizes.level3NodeSize];
+    const textSizes = [sizes.level0TextSize, sizes.level1TextSize, sizes.level2TextSize, sizes.level3TextSize];
+    const categories = new Map(this.categories().map(c => [c.id, c]));
+    const emphasizeLines = this.activeCategories().size > 0 || this.isInFocusMode();
+
+    const nodes: ExportNode[] = [];
+    const lines: ExportLine[] = [];
+
+    const walk = (node: Node, level: number, parentNode: Node | null, rootNode: Node, parentIsParent: boolean, parentInBranch: boolean): boolean => {
+      const isThisFocused = this.isFocusedNode(node);
+      const isThisParent = this.isFocusedParent(node);
+      const isThisInBranch = this.isInFocusedBranch(node);
+      if (this.shouldHideNode(node, level, parentIsParent, parentInBranch, isThisFocused, isThisParent, isThisInBranch)) return false;
+      if (level <= 1 && !this.isRootVisibleInFocusMode(rootNode)) return false;
+
+      const position = this.getForcePosition(node);
+      const styleIndex = Math.min(level, EXPORT_LEVEL_STYLES.length - 1);
+      const style = EXPORT_LEVEL_STYLES[styleIndex];
+      const category = categories.get(this.getPrimaryCategory(node));
+      const accent = category ? category.accentColor ?? category.color : textSecondary;
+      const blurred = this.shouldBlurNode(node, level, parentNode);
+      const size = nodeSizes[styleIndex] * rem;
+
+      nodes.push({
+        label: node.label,
+        level,
+        x: position.x,
+        y: position.y,
+        size,
+        borderWidth: style.borderWidth * rem,
+        borderColor: blurred ? textMuted : level === 0 ? EXPORT_ROOT_BORDER_COLOR : accent,
+        iconPath: this.getNodeIconPath(node, level),
+        iconColor: level <= 1 ? textSecondary : accent,
+        iconSize: style.iconSize * rem,
+        image: this.getNodeImage(node),
+        imageSize: style.imageSize !== null ? style.imageSize * rem : size - rem,
+        fontSize: textSizes[styleIndex] * rem,
+        fontWeight: style.fontWeight,
+        labelGap: style.labelGap * rem,
+        labelMaxWidth: style.labelMaxWidth !== null ? style.labelMaxWidth * rem : null,
+        dimmed: blurred || this.isNodeDimmed(node, level, parentNode?.id ?? null)
+      });
+
+      const showChildren = level === 0 || this.isNodeExpandedAtLevel(node, level) || isThisFocused || isThisParent || isThisInBranch;
+      for (const child of showChildren ? node.children ?? [] : []) {
+        const visible = walk(child, level + 1, node, level === 0 ? child : rootNode, isThisParent, isThisInBranch);
+        if (!visible) continue;
+
+        const childPosition = this.getForcePosition(child);
+        const blurredLine = this.shouldBlurNode(child, level + 1, node);
+        lines.push({
+          x1: position.x,
+          y1: position.y,
+          x2: childPosition.x,
+          y2: childPosition.y,
+          // Wie .connections__line (L2 → L3 heller, beim Filtern und im Fokus-Modus kräftiger)
+          color: blurredLine ? textMuted : level === 2 && !emphasizeLines ? textSecondary : textPrimary,
+          width: blurredLine ? 1.5 : emphasizeLines ? 3.5 : level === 2 ? 1.2 : 1.5,
+          opacity: blurredLine ? 0.15 : emphasizeLines ? 0.8 : level === 2 ? 0.5 : 0.4
+        });
+      }
+      return true;
+    };
+    const root = this.rootNode();
+    walk(root, 0, null, root, false, false);
+
+    return {
+      nodes,
+      lines,
+      background: this.theme.background(),
+      nodeFill: cssVar('--color-white', '#ffffff'),
+      textColor: textPrimary,
+      fontFamily: cssVar('--font-family', 'system-ui, sans-serif')
+    };
   }
 
   // Effect: Initialize and update force layout
@@ -290,23 +694,61 @@ export class AppComponent {
       this.forceLayout.stopSimulation();
       this.calculateFocusModeLayout();
     }
-
-    // Beratung-Modus: Automatische Kreisanordnung beim ersten Laden
-    if (this.needsBeratungInitialArrangement && root.children && root.children.length > 0) {
-      this.needsBeratungInitialArrangement = false;
-      // Warten bis Force-Layout initialisiert ist
-      setTimeout(() => {
-        this.applyInitialCircularArrangement();
-      }, 100);
-    }
   });
 
   // Effect: Hintergrundfarbe am Body setzen
   private backgroundColorEffect = effect(() => {
-    const color = this.backgroundColor();
+    const color = this.printMode() ? PRINT_BACKGROUND_COLOR : this.theme.background();
     document.body.style.backgroundColor = color;
   });
 
+  // Effect: Auf-/Zuklappen und Filteränderungen über die Live-Region ansagen
+  private announceEffect = effect(() => {
+    const expanded = this.expandedNodes();
+    const categories = this.activeCategories();
+    const previousExpanded = this.announcedExpanded;
+    const previousCategories = this.announcedCategories;
+    this.announcedExpanded = expanded;
+    this.announcedCategories = categories;
+    // Erster Lauf: geladener Zustand, keine Änderung durch den Nutzer
+    if (!previousExpanded || !previousCategories) return;
+
+    const root = untracked(() => this.rootNode());
+    const messages: string[] = [];
+    const opened = this.getTopmostLabels(root, [...expanded].filter(id => !previousExpanded.has(id)));
+    const closed = this.getTopmostLabels(root, [...previousExpanded].filter(id => !expanded.has(id)));
+    if (opened.length > 0) messages.push(`${this.t('announce.expanded')}: ${opened.join(', ')}`);
+    if (closed.length > 0) messages.push(`${this.t('announce.collapsed')}: ${closed.join(', ')}`);
+
+    const filterChanged = categories.size !== previousCategories.size || [...categories].some(id => !previousCategories.has(id));
+    if (filterChanged) {
+      const labels = untracked(() => this.categories()).filter(c => categories.has(c.id)).map(c => c.label);
+      messages.push(labels.length > 0 ? `${this.t('announce.filter')}: ${labels.join(', ')}` : this.t('announce.filterCleared'));
+    }
+
+    if (messages.length > 0) {
+      this.announcement.set(messages.join('. '));
+    }
+  });
+
+  // Labels der geänderten Nodes ohne deren ebenfalls geänderte Nachfahren (höchstens 3, sonst Anzahl)
+  private getTopmostLabels(root: Node, ids: string[]): string[] {
+    if (ids.length === 0) return [];
+    const changed = new Set(ids);
+    const labels: string[] = [];
+    const walk = (node: Node) => {
+      if (changed.has(node.id)) {
+        labels.push(node.label);
+        return;
+      }
+      node.children?.forEach(walk);
+    };
+    walk(root);
+    return labels.length > ANNOUNCE_MAX_LABELS
+      ? [this.t('announce.count').replace('{count}', String(labels.length))]
+      : labels;
+  }
+
   // Effect: Zustand in localStorage speichern bei jeder Änderung
   private saveStateEffect = effect(() => {
     // Alle relevanten Signale lesen (tracked)
@@ -315,108 +757,460 @@ export class AppComponent {
     const zoom = this.zoomLevel();
     const pan = this.panOffset();
     const focused = this.focusedNode();
+    const statuses = this.nodeStatuses();
 
     // Zustand speichern
     this.saveStateToStorage();
   });
 
-  private loadStateFromStorage(): void {
-    try {
-      const stored = localStorage.getItem(this.getStorageKey());
-
-      // Wenn kein localStorage: Default-Verhalten je nach Modus
-      if (!stored) {
-        if (this.dataMode() === 'produkte') {
-          // Produkte-Modus: Default-Positionen aus JSON-Datei laden
-          for (const [nodeId, pos] of Object.entries(produkteDefaultState.userPositions)) {
-            this.forceLayout['userPositions'].set(nodeId, pos as { x: number; y: number });
-          }
-          // Auto-Fit nach dem Laden der Positionen
-          setTimeout(() => this.fitViewToL0L1(), 100);
-        } else if (this.dataMode() === 'beratung') {
-          // Beratung-Modus: Flag setzen für automatische Kreisanordnung
-          // (fitViewToL0L1 wird in applyInitialCircularArrangement aufgerufen)
-          this.needsBeratungInitialArrangement = true;
-        }
-        return;
-      }
+  // restoreFilters = false: Filter nicht übernehmen (Wechsel des Datenmodus)
+  private loadStateFromStorage(restoreFilters = true): void {
+    this.viewStateLoaded = true;
+    const state = this.persistence.loadViewState(
+      this.dataMode(), this.dataService.getNodeIds(), this.categories().map(c => c.id)
+    );
 
-      const state = JSON.parse(stored);
+    // Ohne gespeicherten Zustand: Standard-Layout des Modus, dann Auto-Fit (bzw. Ansicht aus Link)
+    if (!state) {
+      this.applyDefaultLayout();
+      setTimeout(() => this.showInitialView(), 100);
+      return;
+    }
 
-      // Expanded Nodes wiederherstellen
-      if (state.expandedNodes && Array.isArray(state.expandedNodes)) {
-        this.expandedNodes.set(new Set(state.expandedNodes));
-      }
+    this.restoreViewState(restoreFilters ? state : { ...state, activeCategories: undefined });
 
-      // Active Categories wiederherstellen
-      if (state.activeCategories && Array.isArray(state.activeCategories)) {
-        this.activeCategories.set(new Set(state.activeCategories));
-      }
+    // Geteilter Link ersetzt die gespeicherte Ansicht (Positionen bleiben erhalten)
+    this.applyPendingViewLink();
+  }
 
-      // Zoom Level wiederherstellen
-      if (typeof state.zoomLevel === 'number') {
-        this.zoomLevel.set(state.zoomLevel);
-      }
+  // Standard-Layout des Datenmodus übernehmen (Zoom und Pan werden danach eingepasst)
+  private applyDefaultLayout(): void {
+    const layout = this.dataService.getDefaultLayout();
+    if (!layout) return;
 
-      // Pan Offset wiederherstellen
-      if (state.panOffset && typeof state.panOffset.x === 'number') {
-        this.panOffset.set(state.panOffset);
-      }
+    this.restoreViewState({
+      expandedNodes: layout.expandedNodes,
+      activeCategories: layout.activeCategories,
+      userPositions: layout.userPositions
+    });
+  }
 
-      // User Positions im ForceLayout wiederherstellen
-      if (state.userPositions && typeof state.userPositions === 'object') {
-        for (const [nodeId, pos] of Object.entries(state.userPositions)) {
-          const position = pos as { x: number; y: number };
-          this.forceLayout['userPositions'].set(nodeId, position);
-        }
+  // Gespeicherte Ansicht übernehmen (localStorage oder Beratungsmappe, Felder werden einzeln geprüft)
+  private restoreViewState(state: Partial<ViewState>): void {
+    // Expanded Nodes wiederherstellen
+    if (state.expandedNodes && Array.isArray(state.expandedNodes)) {
+      this.expandedNodes.set(new Set(state.expandedNodes));
+    }
+
+    // Active Categories wiederherstellen
+    if (state.activeCategories && Array.isArray(state.activeCategories)) {
+      this.activeCategories.set(new Set(state.activeCategories));
+    }
+
+    // Zoom Level wiederherstellen
+    if (typeof state.zoomLevel === 'number') {
+      this.zoomLevel.set(state.zoomLevel);
+    }
+
+    // Pan Offset wiederherstellen
+    if (state.panOffset && typeof state.panOffset.x === 'number') {
+      this.panOffset.set(state.panOffset);
+    }
+
+    // User Positions im ForceLayout wiederherstellen
+    if (state.userPositions && typeof state.userPositions === 'object') {
+      for (const [nodeId, pos] of Object.entries(state.userPositions)) {
+        const position = pos as { x: number; y: number };
+        this.forceLayout['userPositions'].set(nodeId, position);
       }
-    } catch (e) {
-      console.warn('Failed to load state from localStorage:', e);
+    }
+
+    // Status der Bedarfs-Checkliste wiederherstellen
+    if (state.nodeStatuses && typeof state.nodeStatuses === 'object') {
+      this.nodeStatuses.set({ ...state.nodeStatuses });
     }
   }
 
-  private saveStateToStorage(): void {
-    try {
-      // User Positions aus dem ForceLayout holen
-      const userPositions: Record<string, { x: number; y: number }> = {};
-      this.forceLayout['userPositions'].forEach((pos, nodeId) => {
-        userPositions[nodeId] = pos;
-      });
+  private captureViewState(): ViewState {
+    // User Positions aus dem ForceLayout holen
+    const userPositions: Record<string, { x: number; y: number }> = {};
+    this.forceLayout['userPositions'].forEach((pos, nodeId) => {
+      userPositions[nodeId] = pos;
+    });
 
-      const state = {
-        expandedNodes: Array.from(this.expandedNodes()),
-        activeCategories: Array.from(this.activeCategories()),
-        zoomLevel: this.zoomLevel(),
-        panOffset: this.panOffset(),
-        userPositions
-      };
+    return {
+      expandedNodes: Array.from(this.expandedNodes()),
+      activeCategories: Array.from(this.activeCategories()),
+      zoomLevel: this.zoomLevel(),
+      panOffset: this.panOffset(),
+      userPositions,
+      nodeStatuses: this.nodeStatuses()
+    };
+  }
 
-      localStorage.setItem(this.getStorageKey(), JSON.stringify(state));
-    } catch (e) {
-      console.warn('Failed to save state to localStorage:', e);
-    }
+  private saveStateToStorage(): void {
+    if (!this.viewStateLoaded) return;
+    this.persistence.saveViewState(this.dataMode(), this.captureViewState());
   }
 
   private clearStateFromStorage(): void {
-    try {
-      localStorage.removeItem(this.getStorageKey());
-    } catch (e) {
-      console.warn('Failed to clear state from localStorage:', e);
-    }
+    this.persistence.removeViewState(this.dataMode());
   }
 
-  // Wechselt zwischen Beratung und Produkte
-  toggleDataMode(): void {
+  // Wechselt das Darstellungs-Theme (Theme-Auswahl)
+  selectTheme(choice: ThemeChoice): void {
+    this.theme.setTheme(choice);
+  }
+
+  // Wechselt den Datenmodus (Modus-Auswahl)
+  selectDataMode(mode: DataMode): void {
+    if (mode === this.dataMode()) return;
+
     // Aktuellen Zustand speichern
     this.saveStateToStorage();
 
+    // Ein noch nicht angewendeter Link, die geöffnete Beratungsmappe und eine laufende Präsentation gelten nicht mehr
+    this.pendingViewLink = null;
+    this.activeSessionId.set(null);
+    this.tourPlayback.set(null);
+
+    // Status gelten je Datenmodus (werden mit dessen Ansicht geladen)
+    this.nodeStatuses.set({});
+    this.statusFilter.set(null);
+
     // Datenmodus wechseln
-    this.dataService.toggleDataMode();
+    this.dataService.setDataMode(mode);
 
     // Neuen Datenmodus speichern
     this.saveDataModeToStorage();
 
-    // State zurücksetzen für neue Daten
+    this.resetStateForNewData();
+  }
+
+  toggleSessionsPanel(): void {
+    this.sessionsPanelOpen.set(!this.sessionsPanelOpen());
+    this.debugPanelOpen.set(false);
+    this.exportPanelOpen.set(false);
+    this.toursPanelOpen.set(false);
+  }
+
+  toggleToursPanel(): void {
+    this.toursPanelOpen.set(!this.toursPanelOpen());
+    this.sessionsPanelOpen.set(false);
+    this.debugPanelOpen.set(false);
+    this.exportPanelOpen.set(false);
+  }
+
+  // Aktuelle Ansicht als neue Beratungsmappe speichern
+  async createSession(name: string): Promise<void> {
+    const session = await this.sessionService.create(
+      name, this.dataMode(), this.captureViewState(), this.selectedInfoNode()?.id ?? null
+    );
+    if (session) {
+      this.activeSessionId.set(session.id);
+    }
+  }
+
+  // Geöffnete Beratungsmappe mit der aktuellen Ansicht überschreiben
+  async updateSession(id: string): Promise<void> {
+    await this.sessionService.update(id, {
+      dataMode: this.dataMode(),
+      view: this.captureViewState(),
+      selectedInfoNodeId: this.selectedInfoNode()?.id ?? null
+    });
+  }
+
+  openSession(session: Session): void {
+    if (!this.enterDataMode(session.dataMode)) {
+      console.warn(`Failed to open session "${session.name}": data mode "${session.dataMode}" is not available`);
+      return;
+    }
+
+    this.resetViewState();
+    this.restoreViewState(session.view);
+    const infoNode = session.selectedInfoNodeId
+      ? this.findNodeByIdRecursive(this.rootNode(), session.selectedInfoNodeId)
+      : null;
+    this.selectedInfoNode.set(infoNode);
+    this.activeSessionId.set(session.id);
+  }
+
+  // --- Präsentation (Touren) ---
+
+  // Aktuelle Ansicht als neuen Schritt an die Tour anhängen
+  addTourStep(tourId: string): void {
+    const tour = this.tourService.tours().find(t => t.id === tourId);
+    if (!tour) return;
+    this.tourService.addStep(tourId, this.captureTourStep(tour.steps.length + 1));
+  }
+
+  // Schritt mit der aktuellen Ansicht überschreiben (Titel bleibt)
+  replaceTourStep(request: TourStepRef): void {
+    const step = this.tourService.tours().find(t => t.id === request.tourId)?.steps[request.index];
+    if (!step) return;
+    this.tourService.replaceStep(request.tourId, request.index, { ...this.captureTourStep(request.index + 1), title: step.title });
+  }
+
+  // Einzelnen Schritt anzeigen (Bearbeiten im Panel, ohne Präsentation)
+  showTourStep(request: TourStepRef): void {
+    const tour = this.tourService.tours().find(t => t.id === request.tourId);
+    const step = tour?.steps[request.index];
+    if (!tour || !step || !this.enterTourDataMode(tour)) return;
+    this.applyTourStep(step);
+  }
+
+  // Präsentation starten: Panels schließen, Schritte mit Pfeiltasten bzw. Presenter weiterschalten
+  startTour(request: TourStepRef): void {
+    const tour = this.tourService.tours().find(t => t.id === request.tourId);
+    if (!tour || tour.steps.length === 0 || !this.enterTourDataMode(tour)) return;
+
+    this.toursPanelOpen.set(false);
+    this.sessionsPanelOpen.set(false);
+    this.exportPanelOpen.set(false);
+    this.debugPanelOpen.set(false);
+    this.goToTourStep(tour, Math.min(request.index, tour.steps.length - 1));
+  }
+
+  nextTourStep(): void {
+    const tour = this.playingTour();
+    const playback = this.tourPlayback();
+    if (tour && playback && playback.index < tour.steps.length - 1) {
+      this.goToTourStep(tour, playback.index + 1);
+    }
+  }
+
+  previousTourStep(): void {
+    const tour = this.playingTour();
+    const playback = this.tourPlayback();
+    if (tour && playback && playback.index > 0) {
+      this.goToTourStep(tour, playback.index - 1);
+    }
+  }
+
+  // Präsentation beenden; die Ansicht des letzten Schritts bleibt stehen
+  exitTour(): void {
+    this.tourPlayback.set(null);
+  }
+
+  // Tour als JSON-Datei herunterladen
+  exportTour(tour: Tour): void {
+    const file = createTourFile(tour.name, tour.dataMode, tour.steps);
+    const blob = new Blob([JSON.stringify(file, null, 2)], { type: 'application/json' });
+    const slug = tour.name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'tour';
+    this.downloadFile(blob, `finanzhaus-tour-${slug}.json`);
+  }
+
+  // Tasten während der Präsentation: →/↓/Bild↓/Leertaste weiter, ←/↑/Bild↑ zurück (auch Presenter), Pos1/Ende, Esc beendet
+  onTourKeydown(event: KeyboardEvent): void {
+    const tour = this.playingTour();
+    if (!tour) return;
+    if (event.ctrlKey || event.metaKey || event.altKey) return;
+    const target = event.target as HTMLElement | null;
+    if (target?.closest('input, textarea, select')) return;
+
+    switch (event.key) {
+      case 'ArrowRight':
+      case 'ArrowDown':
+      case 'PageDown':
+      case ' ':
+        this.nextTourStep();
+        break;
+      case 'ArrowLeft':
+      case 'ArrowUp':
+      case 'PageUp':
+        this.previousTourStep();
+        break;
+      case 'Home':
+        this.goToTourStep(tour, 0);
+        break;
+      case 'End':
+        this.goToTourStep(tour, tour.steps.length - 1);
+        break;
+      case 'Escape':
+        this.exitTour();
+        break;
+      default:
+        return;
+    }
+    event.preventDefault();
+  }
+
+  private goToTourStep(tour: Tour, index: number): void {
+    this.tourPlayback.set({ tourId: tour.id, index });
+    this.applyTourStep(tour.steps[index]);
+  }
+
+  // Tour im eigenen Datenmodus zeigen; vorher den Zustand des bisherigen Modus speichern
+  private enterTourDataMode(tour: Tour): boolean {
+    if (!this.enterDataMode(tour.dataMode)) {
+      console.warn(`Failed to show tour "${tour.name}": data mode "${tour.dataMode}" is not available`);
+      return false;
+    }
+    return true;
+  }
+
+  private captureTourStep(stepNumber: number): TourStep {
+    return {
+      title: this.getTourStepTitle(stepNumber),
+      expandedNodes: Array.from(this.expandedNodes()),
+      activeCategories: Array.from(this.activeCategories()),
+      focusedNodeIds: this.focusedNodes().map(f => f.node.id),
+      infoNodeId: this.selectedInfoNode()?.id ?? null,
+      zoomLevel: this.zoomLevel(),
+      panOffset: { ...this.panOffset() }
+    };
+  }
+
+  // Vorschlag für den Titel: geöffnete Info, sonst zuletzt fokussierter Node, sonst Filter
+  private getTourStepTitle(stepNumber: number): string {
+    const focused = this.focusedNodes();
+    const label = this.selectedInfoNode()?.label ?? focused[focused.length - 1]?.node.label;
+    if (label) return label;
+
+    const categories = Array.from(this.activeCategories()).map(id => this.getCategoryLabel(id));
+    if (categories.length > 0) return categories.join(', ');
+    return this.t('tours.stepDefault').replace('{n}', String(stepNumber));
+  }
+
+  // Schritt anwenden: Filter, aufgeklappte und fokussierte Nodes, Info und (animiert) Zoom/Pan.
+  // IDs, die es in den Daten nicht gibt, werden übersprungen.
+  private applyTourStep(step: TourStep): void {
+    const root = this.rootNode();
+    const categoryIds = new Set(this.categories().map(c => c.id));
+    const focused = this.resolveFocusedNodes(step.focusedNodeIds);
+
+    // Positionen des Fokus-Modus verwerfen, wenn der Schritt ohne Fokus ist (wie exitFocusMode)
+    if (this.focusedNodes().length > 0 && focused.length === 0) {
+      this.forceLayout.resetToOriginalPositions();
+    }
+    this.savedZoomLevel = null;
+    this.savedPanOffset = null;
+    this.keyboardNodeId.set(null);
+
+    this.activeCategories.set(new Set(step.activeCategories.filter(id => categoryIds.has(id))));
+    this.selectedL2NodeIds.set(new Set());
+    this.expandedNodes.set(new Set(step.expandedNodes));
+    this.expandedBeforeFocus = focused.length > 0 ? new Set(step.expandedNodes) : null;
+    this.focusedNodes.set(focused);
+    this.selectedInfoNode.set(step.infoNodeId ? this.findNodeByIdRecursive(root, step.infoNodeId) : null);
+    this.tooltipPosition.set(null);
+
+    const zoom = Math.min(this.ZOOM_MAX, Math.max(this.ZOOM_MIN, step.zoomLevel));
+    this.animateZoomAndPanTo(zoom, step.panOffset.x, step.panOffset.y);
+  }
+
+  // Layout der aktuellen Ansicht als JSON-Datei herunterladen (Debug-Panel)
+  exportLayout(): void {
+    this.downloadLayoutFile(this.captureViewState(), `finanzhaus-layout-${this.dataMode()}.json`);
+  }
+
+  // Aktuelle Anordnung als Standard-Layout des Modus herunterladen (Debug-Panel).
+  // Die Datei ersetzt src/data/<modus>.default-layout.json bzw. "defaultLayout" im Datenpaket.
+  // Ohne Status der Bedarfs-Checkliste: die Datei wird mit der App an alle ausgeliefert.
+  exportDefaultLayout(): void {
+    const { nodeStatuses, ...view } = this.captureViewState();
+    this.downloadLayoutFile(view, `${this.dataMode()}.default-layout.json`);
+  }
+
+  private downloadLayoutFile(view: ViewState, fileName: string): void {
+    const layout = createLayoutFile(view, this.dataMode());
+    const blob = new Blob([JSON.stringify(layout, null, 2)], { type: 'application/json' });
+    this.downloadFile(blob, fileName);
+  }
+
+  // Layout-Datei übernehmen (Debug-Panel, <input type="file">); unbekannte IDs werden entfernt und gemeldet
+  async importLayout(input: HTMLInputElement): Promise<void> {
+    const file = input.files?.[0];
+    input.value = '';
+    if (!file) return;
+
+    try {
+      const layout = parseLayoutFile(JSON.parse(await file.text()));
+      if (layout.dataMode && !this.enterDataMode(layout.dataMode)) {
+        throw new Error(`Datenmodus "${layout.dataMode}" ist nicht verfügbar`);
+      }
+
+      const unknown = findUnknownLayoutIds(layout, this.dataService.getNodeIds(), this.categories().map(c => c.id));
+      this.resetViewState();
+      this.restoreViewState(removeLayoutIds(layout, unknown));
+
+      const unknownIds = [...unknown.nodeIds, ...unknown.categoryIds];
+      if (unknownIds.length > 0) {
+        console.warn(`Layout ${file.name} references unknown ids: ${unknownIds.join(', ')}`);
+      }
+      this.showLayoutImportReport({ fileName: file.name, error: null, unknownIds });
+    } catch (e) {
+      console.warn('Failed to import layout:', e);
+      this.showLayoutImportReport({ fileName: file.name, error: e instanceof Error ? e.message : String(e), unknownIds: [] });
+    }
+  }
+
+  private showLayoutImportReport(report: LayoutImportReport): void {
+    this.layoutImportReport.set(report);
+    // Erfolgsmeldung ohne Hinweise nach kurzer Zeit ausblenden
+    if (!report.error && report.unknownIds.length === 0) {
+      setTimeout(() => {
+        if (this.layoutImportReport() === report) this.layoutImportReport.set(null);
+      }, 3000);
+    }
+  }
+
+  // Wechselt den Datenmodus ohne dessen gespeicherten Zustand zu laden (Mappe bzw. Layout bringt die Ansicht mit)
+  private enterDataMode(mode: DataMode): boolean {
+    // Modus (noch) nicht verfügbar, z.B. aus einem nicht geladenen Datenpaket
+    if (!this.dataModes().some(m => m.id === mode)) return false;
+
+    if (mode !== this.dataMode()) {
+      this.saveStateToStorage();
+      this.pendingViewLink = null;
+      this.dataService.setDataMode(mode);
+      this.saveDataModeToStorage();
+    }
+    return true;
+  }
+
+  // Datenpaket von URL laden (Debug-Panel)
+  async loadDataPackFromUrl(url: string): Promise<void> {
+    url = url.trim();
+    if (!url) return;
+    this.saveStateToStorage();
+    if (await this.dataService.loadDataPackFromUrl(url)) {
+      this.resetStateForNewData();
+    }
+  }
+
+  // Datenpaket aus lokaler Datei laden (Debug-Panel, <input type="file">)
+  async loadDataPackFromFile(input: HTMLInputElement): Promise<void> {
+    const file = input.files?.[0];
+    input.value = '';
+    if (!file) return;
+    this.saveStateToStorage();
+    if (await this.dataService.loadDataPackFromFile(file)) {
+      this.resetStateForNewData();
+    }
+  }
+
+  useBundledData(): void {
+    if (this.dataPackName() === null) return;
+    this.saveStateToStorage();
+    this.dataService.useBundledData();
+    this.resetStateForNewData();
+  }
+
+  dismissDataLoadError(): void {
+    this.dataService.clearLoadError();
+  }
+
+  // Ansicht für neue Daten zurücksetzen und gespeicherten Zustand des Datenmodus laden
+  private resetStateForNewData(): void {
+    this.resetViewState();
+
+    // Neuen Zustand laden (falls vorhanden, Key je Datenmodus).
+    // Filter nicht übernehmen (sollen nicht zwischen Modi übernommen werden)
+    this.loadStateFromStorage(false);
+  }
+
+  private resetViewState(): void {
     this.expandedNodes.set(new Set());
     this.activeCategories.set(new Set());
     this.selectedL2NodeIds.set(new Set());
@@ -426,13 +1220,8 @@ export class AppComponent {
     this.panOffset.set({ x: 0, y: 0 });
     this.zoomLevel.set(1);
     this.forceLayout.resetUserPositions();
-
-    // Neuen Zustand laden (falls vorhanden)
-    this.loadStateFromStorage();
-
-    // Filter explizit zurücksetzen (sollen nicht zwischen Modi übernommen werden)
-    this.activeCategories.set(new Set());
-    this.selectedL2NodeIds.set(new Set());
+    this.nodeStatuses.set({});
+    this.statusFilter.set(null);
   }
 
 
@@ -445,23 +1234,29 @@ export class AppComponent {
     return cat ? cat.label : '';
   }
 
+  // Übergreifende Kategorien (Dach des Finanzhauses) bestimmen nicht die Farbe eines Nodes
+  private roofCategoryIds = computed(() =>
+    new Set(this.categories().filter(c => c.house?.row === 0).map(c => c.id))
+  );
+
+  // Kategorie-ID → CSS-Variablen mit den Farben aus der Datendatei
+  categoryStyles = computed(() =>
+    Object.fromEntries(this.categories().map(c => [c.id, getCategoryStyle(c)])) as Record<CategoryId, Record<string, string>>
+  );
+
   getPrimaryCategory(node: Node): CategoryId {
-    const nonStrategie = node.categoryIds.find(id => id !== 'strategie');
-    return nonStrategie || node.categoryIds[0] || 'strategie';
-  }
-
-  // Icon paths for each category
-  private iconPaths: Record<CategoryId, string> = {
-    strategie: 'M3.75 3v11.25A2.25 2.25 0 0 0 6 16.5h2.25M3.75 3h-1.5m1.5 0h16.5m0 0h1.5m-1.5 0v11.25A2.25 2.25 0 0 1 18 16.5h-2.25m-7.5 0h7.5m-7.5 0-1 3m8.5-3 1 3m0 0 .5 1.5m-.5-1.5h-9.5m0 0-.5 1.5',
-    privat_finanz: 'M15.75 6a3.75 3.75 0 1 1-7.5 0 3.75 3.75 0 0 1 7.5 0ZM4.501 20.118a7.5 7.5 0 0 1 14.998 0A17.933 17.933 0 0 1 12 21.75c-2.676 0-5.216-.584-7.499-1.632Z',
-    gruendung: 'M15.59 14.37a6 6 0 0 1-5.84 7.38v-4.8m5.84-2.58a14.98 14.98 0 0 0 6.16-12.12A14.98 14.98 0 0 0 9.631 8.41m5.96 5.96a14.926 14.926 0 0 1-5.841 2.58m-.119-8.54a6 6 0 0 0-7.381 5.84h4.8m2.581-5.84a14.927 14.927 0 0 0-2.58 5.84m2.699 2.7c-.103.021-.207.041-.311.06a15.09 15.09 0 0 1-2.448-2.448 14.9 14.9 0 0 1 .06-.312m-2.24 2.39a4.493 4.493 0 0 0-1.757 4.306 4.493 4.493 0 0 0 4.306-1.758M16.5 9a1.5 1.5 0 1 1-3 0 1.5 1.5 0 0 1 3 0Z',
-    absicherung: 'M9 12.75 11.25 15 15 9.75m-3-7.036A11.959 11.959 0 0 1 3.598 6 11.99 11.99 0 0 0 3 9.749c0 5.592 3.824 10.29 9 11.623 5.176-1.332 9-6.03 9-11.622 0-1.31-.21-2.571-.598-3.751h-.152c-3.196 0-6.1-1.248-8.25-3.285Z',
-    vorsorge: 'M18 18.72a9.094 9.094 0 0 0 3.741-.479 3 3 0 0 0-4.682-2.72m.94 3.198.001.031c0 .225-.012.447-.037.666A11.944 11.944 0 0 1 12 21c-2.17 0-4.207-.576-5.963-1.584A6.062 6.062 0 0 1 6 18.719m12 0a5.971 5.971 0 0 0-.941-3.197m0 0A5.995 5.995 0 0 0 12 12.75a5.995 5.995 0 0 0-5.058 2.772m0 0a3 3 0 0 0-4.681 2.72 8.986 8.986 0 0 0 3.74.477m.94-3.197a5.971 5.971 0 0 0-.94 3.197M15 6.75a3 3 0 1 1-6 0 3 3 0 0 1 6 0Zm6 3a2.25 2.25 0 1 1-4.5 0 2.25 2.25 0 0 1 4.5 0Zm-13.5 0a2.25 2.25 0 1 1-4.5 0 2.25 2.25 0 0 1 4.5 0Z',
-    vermoegen: 'M2.25 18 9 11.25l4.306 4.306a11.95 11.95 0 0 1 5.814-5.518l2.74-1.22m0 0-5.94-2.281m5.94 2.28-2.28 5.941',
-    ausland: 'M12 21a9.004 9.004 0 0 0 8.716-6.747M12 21a9.004 9.004 0 0 1-8.716-6.747M12 21c2.485 0 4.5-4.03 4.5-9S14.485 3 12 3m0 18c-2.485 0-4.5-4.03-4.5-9S9.515 3 12 3m0 0a8.997 8.997 0 0 1 7.843 4.582M12 3a8.997 8.997 0 0 0-7.843 4.582m15.686 0A11.953 11.953 0 0 1 12 10.5c-2.998 0-5.74-1.1-7.843-2.918m15.686 0A8.959 8.959 0 0 1 21 12c0 .778-.099 1.533-.284 2.253m0 0A17.919 17.919 0 0 1 12 16.5c-3.162 0-6.133-.815-8.716-2.247m0 0A9.015 9.015 0 0 1 3 12c0-1.605.42-3.113 1.157-4.418',
-    finanzierung: 'M12 21v-8.25M15.75 21v-8.25M8.25 21v-8.25M3 9l9-6 9 6m-1.5 12V10.332A48.36 48.36 0 0 0 12 9.75c-2.551 0-5.056.2-7.5.582V21M3 21h18M12 6.75h.008v.008H12V6.75Z',
-    zahlungsverkehr: 'M2.25 18.75a60.07 60.07 0 0 1 15.797 2.101c.727.198 1.453-.342 1.453-1.096V18.75M3.75 4.5v.75A.75.75 0 0 1 3 6h-.75m0 0v-.375c0-.621.504-1.125 1.125-1.125H20.25M2.25 6v9m18-10.5v.75c0 .414.336.75.75.75h.75m-1.5-1.5h.375c.621 0 1.125.504 1.125 1.125v9.75c0 .621-.504 1.125-1.125 1.125h-.375m1.5-1.5H21a.75.75 0 0 0-.75.75v.75m0 0H3.75m0 0h-.375a1.125 1.125 0 0 1-1.125-1.125V15m1.5 1.5v-.75A.75.75 0 0 0 3 15h-.75M15 10.5a3 3 0 1 1-6 0 3 3 0 0 1 6 0Zm3 0h.008v.008H18V10.5Zm-12 0h.008v.008H6V10.5Z'
-  };
+    const roofIds = this.roofCategoryIds();
+    return node.categoryIds.find(id => !roofIds.has(id)) ?? node.categoryIds[0] ?? this.rootNode().categoryIds[0];
+  }
+
+  getCategoryStyle(node: Node): Record<string, string> | null {
+    return this.categoryStyles()[this.getPrimaryCategory(node)] ?? null;
+  }
+
+  // Symbol der Kategorie (nur in Themes mit Symbolen, z.B. Hoher Kontrast)
+  getCategoryMarker(node: Node): string | null {
+    return this.categoryMarkers()[this.getPrimaryCategory(node)] ?? null;
+  }
 
   // Level 0 and Level 1 Icon Paths (spezielle Icons für Root-Nodes)
   private level1IconPaths: Record<string, string> = {
@@ -472,64 +1267,30 @@ export class AppComponent {
     'building': 'M2.25 21h19.5m-18-18v18m10.5-18v18m6-13.5V21M6.75 6.75h.75m-.75 3h.75m-.75 3h.75m3-6h.75m-.75 3h.75m-.75 3h.75M6.75 21v-3.375c0-.621.504-1.125 1.125-1.125h2.25c.621 0 1.125.504 1.125 1.125V21M3 3h12m-.75 4.5H21m-3.75 3.75h.008v.008h-.008v-.008Zm0 3h.008v.008h-.008v-.008Zm0 3h.008v.008h-.008v-.008Z'
   };
 
-  // L0 Root Node ID → Piktogramm-Bild Mapping
-  private l0ImageMap: Record<string, string> = {
-    'ihr_unternehmen': './assets/00_Ihr Unternehmen.png',
-    'mein_unternehmen': './assets/00_Ihr Unternehmen.png'
-  };
-
-  // L1 Node ID → Piktogramm-Bild Mapping (nur Produkte-Modus)
-  private l1ImageMap: Record<string, string> = {
-    'l1_zahlungsverkehr': './assets/10_FK_Zahlungsverkehr.png',
-    'l1_finanzierung': './assets/20_FK_Finanzierung.png',
-    'l1_versicherung': './assets/30_FK_Versicherung.png',
-    'l1_vorsorge_und_mitarbeiterbindung': './assets/40_FK_Vorsorge & Mitarbeiterbindung.png',
-    'l1_vermoegen_eigenkapital': './assets/50_FK_Vermögen & Eigenkapital.png',
-    'l1_auslandsgeschaeft': './assets/60_FK_Auslandsgeschäft.png',
-    'l1_gruendung_nachfolge': './assets/70_FK_Gründung & Nachfolge.png',
-    'l1_private_finanzplanung': './assets/80_Private FinanzPlanung.png'
-  };
-
-  // L2 Node ID → Piktogramm-Bild Mapping
-  private l2ImageMap: Record<string, string> = {
-    'l2_zahlungsverkehr_zahlungsverkehr_im_sepa_raum_abwickeln': './assets/11_FK_Zahlungsverkehr im SEPA-Raum abwickeln.png',
-    'l2_zahlungsverkehr_liquiditaet_vorhalten_und_absichern': './assets/12_FK_Liquidität absichern und vorhalten.png',
-    'l2_finanzierung_investitionen_finanzieren': './assets/21_FK_Investitionen finanzieren.png',
-    'l2_finanzierung_finanzierungen_optimieren': './assets/22_FK_Finanzierungen optimieren.png',
-    'l2_versicherung_notfall_regeln': './assets/31_FK_Notfall regeln.png',
-    'l2_versicherung_sachwerte_absichern': './assets/32_FK_Sachwerte absichern.png',
-    'l2_versicherung_vermoegenswerte_absichern': './assets/33_FK_Vermögenswerte absichern.png',
-    'l2_vorsorge_und_mitarbeiterbindung_mitarbeiter_binden': './assets/41_FK_Mitarbeiter binden.png',
-    'l2_vorsorge_und_mitarbeiterbindung_betriebliche_altersvorsorge_anbieten': './assets/42_FK_Betriebliche Altersvorsorge anbieten.png',
-    'l2_vermoegen_eigenkapital_vermoegen_ek_aufbauen_und_anlegen': './assets/51_FK_Vermögen EK aufbauen und anlegen.png',
-    'l2_vermoegen_eigenkapital_vermoegen_ek_verwenden': './assets/52_FK_Vermögen EK verwenden.png',
-    'l2_auslandsgeschaeft_warengeschaefte_und_dienstleistungen_abwickeln': './assets/61_FK_Warengeschäfte und Dienstleistungen abwickeln.png',
-    'l2_auslandsgeschaeft_warengeschaefte_und_dienstleistungen_finanzieren': './assets/62_FK_Warengeschäfte und Dienstleistungen finanzieren.png',
-    'l2_auslandsgeschaeft_waehrungsschwankungen_absichern': './assets/63_FK_Währungsschwankungen absichern.png',
-    'l2_gruendung_nachfolge_existenzgruendung_finanzieren': './assets/71_FK_Existenzgründung_finanzieren.png',
-    'l2_gruendung_nachfolge_unternehmensnachfolge_regeln': './assets/72_FK_Unternehmensnachfolge_regeln.png',
-    'l2_private_finanzplanung_girokonto_bezahlen': './assets/85_FK_Girokonto.png',
-    'l2_private_finanzplanung_versicherung_schuetzen': './assets/84_FK_Versicherung.png',
-    'l2_private_finanzplanung_geldanlage_und_sparen': './assets/83_FK_Geldanlage.png',
-    'l2_private_finanzplanung_kredit_finanzieren': './assets/81_FK_Kredite_Finanzieren.png',
-    'l2_private_finanzplanung_zukunft_und_vorsorgen': './assets/85_FK_Zukunft_Vorsorge.png',
-    'l2_private_finanzplanung_immobilien_wohnen': './assets/82_FK_Immobilien.png'
-  };
+  // Node-ID → Piktogramm: eigenes Bild (image in den Daten), sonst das des nächsten Vorfahren.
+  // Das Root-Bild wird nicht vererbt (zu generisch für Themen-Nodes).
+  private nodeImages = computed(() => {
+    const images = new Map<string, string>();
+    const root = this.rootNode();
+    if (root.image) images.set(root.id, root.image);
 
-  getL0ImagePath(nodeId: string): string | null {
-    return this.l0ImageMap[nodeId] || null;
-  }
+    const walk = (node: Node, inherited: string | undefined) => {
+      const image = node.image ?? inherited;
+      if (image) images.set(node.id, image);
+      node.children?.forEach(child => walk(child, image));
+    };
+    root.children?.forEach(child => walk(child, undefined));
 
-  getL1ImagePath(nodeId: string): string | null {
-    return this.l1ImageMap[nodeId] || null;
-  }
+    return images;
+  });
 
-  getL2ImagePath(nodeId: string): string | null {
-    return this.l2ImageMap[nodeId] || null;
+  getNodeImage(node: Node): string | null {
+    return this.nodeImages().get(node.id) ?? null;
   }
 
   getIconPath(categoryId: CategoryId): string {
-    return this.iconPaths[categoryId] || this.iconPaths.strategie;
+    const category = this.categories().find(c => c.id === categoryId);
+    return category?.icon || this.level1IconPaths['network'];
   }
 
   getNodeIconPath(node: Node, level: number | string): string {
@@ -960,6 +1721,14 @@ export class AppComponent {
    * Sammelt alle Nodes die expandiert/sichtbar sind und ruft centerAndZoomToFit auf.
    */
   private centerOnVisibleNodes(): void {
+    const visiblePositions = this.getVisiblePositions();
+    if (visiblePositions.length === 0) return;
+
+    this.centerAndZoomToFit(visiblePositions);
+  }
+
+  // Positionen aller expandierten/sichtbaren Nodes
+  private getVisiblePositions(): { x: number; y: number }[] {
     const positions = this.forcePositions();
     const expanded = this.expandedNodes();
     const visiblePositions: { x: number; y: number }[] = [];
@@ -990,9 +1759,7 @@ export class AppComponent {
     const root = this.rootNode();
     collectVisible(root, 0, true);
 
-    if (visiblePositions.length === 0) return;
-
-    this.centerAndZoomToFit(visiblePositions);
+    return visiblePositions;
   }
 
   /**
@@ -1007,7 +1774,18 @@ export class AppComponent {
    * pan.y = -centerY * zoom
    */
   private centerAndZoomToFit(positions: { x: number; y: number }[]): void {
-    if (positions.length === 0) return;
+    // Viewport-Größe (mit Margin für UI-Elemente wie Finanzhaus, Toolbar)
+    const VIEWPORT_MARGIN = 0.80; // 80% des Viewports nutzen
+    const fit = this.computeZoomToFit(positions, window.innerWidth * VIEWPORT_MARGIN, window.innerHeight * VIEWPORT_MARGIN);
+    if (!fit) return;
+
+    // Mit Animation anwenden
+    this.animateZoomAndPanTo(fit.zoom, fit.panX, fit.panY);
+  }
+
+  // Zoom und Pan, mit denen die Positionen mittig in eine Fläche der gegebenen Größe passen
+  private computeZoomToFit(positions: { x: number; y: number }[], viewportWidth: number, viewportHeight: number): { zoom: number; panX: number; panY: number } | null {
+    if (positions.length === 0) return null;
 
     // Bounding Box berechnen (im Force-Koordinatensystem)
     let minX = Infinity, maxX = -Infinity;
@@ -1029,11 +1807,6 @@ export class AppComponent {
     const boxWidth = (maxX - minX) + NODE_PADDING * 2;
     const boxHeight = (maxY - minY) + NODE_PADDING * 2;
 
-    // Viewport-Größe (mit Margin für UI-Elemente wie Finanzhaus, Toolbar)
-    const VIEWPORT_MARGIN = 0.80; // 80% des Viewports nutzen
-    const viewportWidth = window.innerWidth * VIEWPORT_MARGIN;
-    const viewportHeight = window.innerHeight * VIEWPORT_MARGIN;
-
     // Benötigten Zoom berechnen, sodass die Bounding-Box in den Viewport passt
     let newZoom: number;
 
@@ -1059,8 +1832,7 @@ export class AppComponent {
     const panX = -centerX * newZoom;
     const panY = -centerY * newZoom;
 
-    // Mit Animation anwenden
-    this.animateZoomAndPanTo(newZoom, panX, panY);
+    return { zoom: newZoom, panX, panY };
   }
 
   // Animiert Zoom und Pan gleichzeitig
@@ -1259,6 +2031,33 @@ export class AppComponent {
     }
   }
 
+  toggleViewMode(): void {
+    this.viewMode.set(this.viewMode() === 'map' ? 'outline' : 'map');
+  }
+
+  // Gliederung: L1/L2 auf-/zuklappen (ohne Animation und Fokus-Logik der Karte)
+  toggleOutlineNode(node: Node): void {
+    const activeCategories = this.activeCategories();
+    const openByFilter = activeCategories.size > 0 && this.hasAnyCategoryMatch(node, activeCategories);
+    const expanded = new Set(this.expandedNodes());
+
+    if (expanded.has(node.id) || openByFilter) {
+      this.collapseNodeAndChildren(node, expanded);
+      // Wie in der Karte: Filter zurücksetzen, sonst bliebe der Node durch den Filter offen
+      if (activeCategories.size > 0) {
+        this.activeCategories.set(new Set());
+      }
+    } else {
+      expanded.add(node.id);
+    }
+    this.expandedNodes.set(expanded);
+  }
+
+  // Gliederung: Info eines L3+ Nodes öffnen/schließen (Tooltip erscheint in der Zeile)
+  toggleInfoNode(node: Node): void {
+    this.selectedInfoNode.set(this.selectedInfoNode()?.id === node.id ? null : node);
+  }
+
   // Sammelt einen Node und alle seine Kinder rekursiv
   private collectNodeAndChildren(node: Node, set: Set<string>) {
     set.add(node.id);
@@ -1380,6 +2179,29 @@ export class AppComponent {
     this.animatePanTo(0, 0);
   }
 
+  // Suchtreffer anzeigen: Vorfahren expandieren, auf den Node zentrieren und Info-Panel öffnen
+  selectSearchResult(node: Node): void {
+    if (this.isInFocusMode()) {
+      this.exitFocusMode();
+    }
+
+    const path = this.findPathToNode(this.rootNode(), node.id);
+    if (!path) return;
+
+    const expanded = new Set(this.expandedNodes());
+    for (const nodeId of path) {
+      if (nodeId !== node.id) expanded.add(nodeId);
+    }
+    this.expandedNodes.set(expanded);
+    this.selectedInfoNode.set(node);
+
+    // Warten bis die neu sichtbaren Nodes positioniert sind
+    setTimeout(() => {
+      const pos = this.forcePositions().get(node.id);
+      if (pos) this.centerAndZoomToFit([pos]);
+    }, 150);
+  }
+
   resetView() {
     // 1. Alle User-Positionen zurücksetzen
     this.forceLayout.resetUserPositions();
@@ -1387,54 +2209,21 @@ export class AppComponent {
     // 2. localStorage löschen
     this.clearStateFromStorage();
 
-    // 3. Standard-Positionen je nach Datenmodus setzen (VOR den Signal-Änderungen!)
-    if (this.dataMode() === 'produkte') {
-      // Produkte-Modus: Default-Positionen aus JSON-Datei laden
-      for (const [nodeId, pos] of Object.entries(produkteDefaultState.userPositions)) {
-        this.forceLayout['userPositions'].set(nodeId, pos as { x: number; y: number });
-      }
-    }
-
-    // 4. State und View zurücksetzen
+    // 3. State und View zurücksetzen
+    this.expandedNodes.set(new Set());
     this.activeCategories.set(new Set());
     this.focusedNodes.set([]);
     this.selectedInfoNode.set(null);
     this.tooltipPosition.set(null);
 
-    // 5. Beratung-Modus: Direkt die korrekten expandedNodes setzen und Kreisanordnung anwenden
-    if (this.dataMode() === 'beratung') {
-      // Alle L1 und L2 Nodes als expanded setzen (damit L3 sichtbar wird)
-      const expanded = new Set<string>();
-      const root = this.rootNode();
-      for (const l1Node of root.children || []) {
-        expanded.add(l1Node.id);
-        for (const l2Node of l1Node.children || []) {
-          expanded.add(l2Node.id);
-        }
-      }
-      this.expandedNodes.set(expanded);
+    // 4. Standard-Layout des Datenmodus anwenden
+    this.applyDefaultLayout();
 
-      // Kreisanordnung anwenden nachdem Layout aktualisiert ist
-      setTimeout(() => {
-        for (const l1Node of root.children || []) {
-          if (l1Node.children && l1Node.children.length > 0) {
-            const childIds = l1Node.children.map(child => child.id);
-            this.forceLayout.arrangeChildrenCircular(l1Node.id, childIds);
-          }
-        }
-        // Auto-Fit nach Kreisanordnung
-        this.fitViewToL0L1();
-        this.saveStateToStorage();
-      }, 200);
-    } else {
-      // Produkte-Modus: Einfach zurücksetzen und Auto-Fit
-      this.expandedNodes.set(new Set());
-      // Warten bis Force-Layout die Positionen hat
-      setTimeout(() => {
-        this.fitViewToL0L1();
-        this.saveStateToStorage();
-      }, 100);
-    }
+    // Warten bis Force-Layout die Positionen hat
+    setTimeout(() => {
+      this.fitViewToL0L1();
+      this.saveStateToStorage();
+    }, 100);
   }
 
   /**
@@ -1452,6 +2241,8 @@ export class AppComponent {
     // L0 ist immer bei (0, 0)
     positions.push({ x: 0, y: 0 });
 
+    const defaultPositions = this.dataService.getDefaultLayout()?.userPositions ?? {};
+
     for (const l1Node of l1Nodes) {
       // Priorität: 1. userPositions, 2. Force-Layout, 3. Default
       const userPos = this.forceLayout['userPositions'].get(l1Node.id);
@@ -1466,12 +2257,10 @@ export class AppComponent {
         continue;
       }
 
-      // Fallback: Default-Positionen für Produkte-Modus
-      if (this.dataMode() === 'produkte') {
-        const defaultPos = (produkteDefaultState.userPositions as Record<string, { x: number; y: number }>)[l1Node.id];
-        if (defaultPos) {
-          positions.push(defaultPos);
-        }
+      // Fallback: Position aus dem Standard-Layout des Modus
+      const defaultPos = defaultPositions[l1Node.id];
+      if (defaultPos) {
+        positions.push(defaultPos);
       }
     }
 
@@ -1526,6 +2315,7 @@ export class AppComponent {
 
   onPanStart(event: MouseEvent) {
     if (event.button !== 0) return;
+    this.keyboardNodeId.set(null);
 
     // Speichere Position für Click vs Drag Erkennung
     this.backgroundMouseDownPos = { x: event.clientX, y: event.clientY };
@@ -1758,6 +2548,7 @@ export class AppComponent {
     if (event.button !== 0) return; // Nur linke Maustaste
 
     event.stopPropagation(); // Verhindert Pan
+    this.keyboardNodeId.set(null);
     // KEIN preventDefault() - das blockiert dblclick!
 
     const nodePos = this.forceLayout.getPosition(node.id);
@@ -1986,43 +2777,259 @@ export class AppComponent {
     }
   }
 
-  /**
-   * Wendet automatisch Kreisanordnung auf alle L1 Nodes an.
-   * Wird beim ersten Laden im Beratung-Modus aufgerufen.
-   */
-  private applyInitialCircularArrangement(): void {
-    const root = this.rootNode();
-    if (!root.children || root.children.length === 0) {
-      return;
+  // --- Bedarfs-Checkliste ---
+
+  getNodeStatus(node: Node): NodeStatus | null {
+    return this.nodeStatuses()[node.id] ?? null;
+  }
+
+  // Setzt den Status eines L3+ Nodes; derselbe Status noch einmal hebt ihn auf
+  setNodeStatus(node: Node, status: NodeStatus | null): void {
+    const statuses = { ...this.nodeStatuses() };
+    if (status === null || statuses[node.id] === status) {
+      delete statuses[node.id];
+    } else {
+      statuses[node.id] = status;
     }
+    this.nodeStatuses.set(statuses);
+  }
+
+  getStatusLabel(status: NodeStatus): string {
+    return this.t('status.' + status);
+  }
+
+  // Label für Screenreader inkl. Status (Badge ist nur visuell)
+  getNodeAriaLabel(node: Node): string {
+    const status = this.getNodeStatus(node);
+    return status ? `${node.label}, ${this.getStatusLabel(status)}` : node.label;
+  }
+
+  // Roll-up für L1/L2: Status mit Anzahl in der Reihenfolge der Auswahl
+  getStatusSummary(node: Node): { status: NodeStatus; count: number }[] {
+    const counts: StatusCounts = this.statusRollUp().get(node.id) ?? {};
+    return NODE_STATUSES.filter(status => counts[status]).map(status => ({ status, count: counts[status]! }));
+  }
 
-    // Alle L1 UND L2 Nodes expandieren (damit L3 Kinder sichtbar werden)
+  getStatusSummaryTitle(node: Node): string {
+    return this.getStatusSummary(node).map(({ status, count }) => `${this.getStatusLabel(status)}: ${count}`).join(', ');
+  }
+
+  // Status-Filter (Auswahl); Vorfahren der passenden Nodes werden aufgeklappt, damit diese sichtbar sind
+  selectStatusFilter(value: string): void {
+    const status = NODE_STATUSES.find(s => s === value) ?? null;
+    this.statusFilter.set(status);
+    if (!status) return;
+
+    const path = collectStatusPath(this.rootNode(), this.nodeStatuses(), status);
     const expanded = new Set(this.expandedNodes());
-    for (const l1Node of root.children) {
-      expanded.add(l1Node.id);
-      // Auch alle L2 Kinder expandieren
-      if (l1Node.children) {
-        for (const l2Node of l1Node.children) {
-          expanded.add(l2Node.id);
-        }
+    const root = this.rootNode();
+    for (const id of path) {
+      const node = this.findNodeByIdRecursive(root, id);
+      if (node && node !== root && node.children?.some(child => path.has(child.id))) {
+        expanded.add(id);
       }
     }
     this.expandedNodes.set(expanded);
+  }
 
-    // Warten bis alle Nodes im Layout sind (L1, L2 und L3)
-    setTimeout(() => {
-      // Kreisanordnung für jede L1 Node anwenden (positioniert L2 UND L3)
-      for (const l1Node of root.children!) {
-        if (l1Node.children && l1Node.children.length > 0) {
-          const childIds = l1Node.children.map(child => child.id);
-          this.forceLayout.arrangeChildrenCircular(l1Node.id, childIds);
+  // --- Tastatur-Navigation ---
+
+  // Pfeiltasten: ←/→ Geschwister, ↑ Parent, ↓ erstes Kind; Enter auf-/zuklappen bzw. Info; F Fokus; S Status; Esc Fokus beenden bzw. Info schließen; +/- Zoom
+  onMapKeydown(event: KeyboardEvent): void {
+    // Tasten in Buttons der Nodes (z.B. Kreisanordnung) nicht abfangen
+    if (event.target !== event.currentTarget) return;
+    // Während einer Präsentation schalten die Tasten die Schritte weiter (onTourKeydown)
+    if (this.playingTour()) return;
+    if (event.ctrlKey || event.metaKey || event.altKey) return;
+
+    switch (event.key) {
+      case 'ArrowLeft':
+      case 'ArrowRight':
+      case 'ArrowUp':
+      case 'ArrowDown':
+        this.moveKeyboardSelection(event.key);
+        break;
+      case 'Enter':
+        this.activateKeyboardNode();
+        break;
+      case 'f':
+      case 'F':
+        this.toggleKeyboardNodeFocus();
+        break;
+      case 's':
+      case 'S':
+        this.cycleKeyboardNodeStatus();
+        break;
+      case 'Escape':
+        if (this.isInFocusMode()) {
+          this.exitFocusMode();
+        } else if (this.selectedInfoNode()) {
+          this.closeInfoPanel();
+        } else {
+          return;
         }
+        break;
+      case '+':
+      case '=':
+        this.zoomIn();
+        break;
+      case '-':
+        this.zoomOut();
+        break;
+      default:
+        return;
+    }
+    event.preventDefault();
+  }
+
+  private moveKeyboardSelection(key: 'ArrowLeft' | 'ArrowRight' | 'ArrowUp' | 'ArrowDown'): void {
+    const path = this.getKeyboardPath();
+    // Erster Tastendruck: beim Root beginnen
+    if (!path) {
+      this.selectKeyboardNode(this.rootNode());
+      return;
+    }
+
+    const level = path.length - 1;
+    const node = path[level];
+    const parent = path[level - 1] ?? null;
+    let target: Node | undefined;
+
+    if (key === 'ArrowUp') {
+      target = parent ?? undefined;
+    } else if (key === 'ArrowDown') {
+      target = this.getVisibleChildren(node, level)[0];
+    } else if (parent) {
+      // Geschwister im Kreis durchlaufen (wie die radiale Anordnung)
+      const siblings = this.getVisibleChildren(parent, level - 1);
+      const index = siblings.findIndex(sibling => sibling.id === node.id);
+      const step = key === 'ArrowRight' ? 1 : -1;
+      target = siblings[(index + step + siblings.length) % siblings.length];
+    }
+
+    if (target) this.selectKeyboardNode(target);
+  }
+
+  // Enter: wie ein Klick auf den Node (L0–L2 auf-/zuklappen, ab L3 Info öffnen/schließen)
+  private activateKeyboardNode(): void {
+    const path = this.getKeyboardPath();
+    if (!path) return;
+
+    const level = path.length - 1;
+    const node = path[level];
+    if (level >= 3) {
+      this.toggleInfoNode(node);
+    } else {
+      this.handleNodeClick(node, level, path[level - 1] ?? null, path[1] ?? node);
+    }
+  }
+
+  // S: Status eines L3+ Nodes weiterschalten (ohne → besprochen → … → ohne)
+  private cycleKeyboardNodeStatus(): void {
+    const path = this.getKeyboardPath();
+    if (!path || path.length - 1 < STATUS_LEVEL) return;
+
+    const node = path[path.length - 1];
+    const status = nextNodeStatus(this.getNodeStatus(node));
+    this.setNodeStatus(node, status);
+    this.announcement.set(`${node.label}: ${status ? this.getStatusLabel(status) : this.t('status.none')}`);
+  }
+
+  // F: Node zum Fokus hinzufügen bzw. daraus entfernen (wie Strg+Doppelklick)
+  private toggleKeyboardNodeFocus(): void {
+    const path = this.getKeyboardPath();
+    if (!path) return;
+
+    const level = path.length - 1;
+    const node = path[level];
+    if (level === 0) {
+      if (this.isInFocusMode()) this.exitFocusMode();
+      return;
+    }
+    // Level 3+: kein Fokus (wie beim Doppelklick)
+    if (level >= 3) return;
+
+    if (this.isNodeInFocus(node)) {
+      this.removeNodeFromFocus(node);
+      return;
+    }
+
+    if (!this.isInFocusMode()) {
+      this.expandedBeforeFocus = new Set(this.expandedNodes());
+    }
+    // Erst expandieren, damit die Kinder im Force-Layout sind, bevor der Fokus gesetzt wird
+    const expanded = new Set(this.expandedNodes());
+    expanded.add(node.id);
+    this.expandedNodes.set(expanded);
+    this.toggleNodeFocus(node, path[level - 1], path[1], level);
+  }
+
+  private selectKeyboardNode(node: Node): void {
+    this.onNodeMouseLeave();
+    this.keyboardNodeId.set(node.id);
+
+    // Karte nachführen, wenn der Node außerhalb des inneren Bereichs liegt
+    const position = this.getForcePosition(node);
+    const zoom = this.zoomLevel();
+    const pan = this.panOffset();
+    const screenX = position.x * zoom + pan.x;
+    const screenY = position.y * zoom + pan.y;
+    const panned = Math.abs(screenX) > window.innerWidth * KEYBOARD_PAN_THRESHOLD / 2 ||
+      Math.abs(screenY) > window.innerHeight * KEYBOARD_PAN_THRESHOLD / 2;
+    if (panned) {
+      this.animatePanTo(-position.x * zoom, -position.y * zoom);
+    }
+
+    // Tooltip (L0–L2) wie beim Hover anzeigen, sobald der Node an seiner Stelle ist
+    setTimeout(() => {
+      const element = document.getElementById(this.getNodeElementId(node.id));
+      if (element && this.keyboardNodeId() === node.id && this.getNodeLevel(node) < 3 && node.tooltip) {
+        this.showNodeTooltip(node, element.getBoundingClientRect());
       }
-      // Auto-Fit nach Kreisanordnung
-      this.fitViewToL0L1();
-      // Zustand speichern
-      this.saveStateToStorage();
-    }, 150);
+    }, panned ? 400 : 0);
+  }
+
+  // ID des Node-Elements (aria-activedescendant, aria-owns der Kinder-Gruppe)
+  getNodeElementId(nodeId: string): string {
+    return `mindmap-node-${nodeId}`;
+  }
+
+  // Beschreibung eines Nodes für Screenreader: geöffnete Info bzw. angezeigter Tooltip
+  getNodeDescriptionId(node: Node): string | null {
+    if (this.selectedInfoNode()?.id === node.id && node.tooltip && this.viewMode() === 'map') return 'info-panel-content';
+    if (this.hoveredNode()?.id === node.id && this.tooltipPosition()) return 'node-tooltip';
+    return null;
+  }
+
+  closeInfoPanel(): void {
+    this.selectedInfoNode.set(null);
+    this.tooltipPosition.set(null);
+  }
+
+  private getNodeLevel(node: Node): number {
+    return (this.findPathToNode(this.rootNode(), node.id)?.length ?? 1) - 1;
+  }
+
+  // Pfad vom Root zum per Tastatur ausgewählten Node (null, wenn keiner ausgewählt oder nicht mehr sichtbar)
+  private getKeyboardPath(): Node[] | null {
+    const id = this.keyboardNodeId();
+    const root = this.rootNode();
+    const ids = id ? this.findPathToNode(root, id) : null;
+    if (!ids) return null;
+
+    const path = ids.map(nodeId => this.findNodeByIdRecursive(root, nodeId)!);
+    const visible = path.every((node, level) => level === 0 || this.getVisibleChildren(path[level - 1], level - 1).includes(node));
+    return visible ? path : null;
+  }
+
+  // Sichtbare Kinder eines Nodes (gleiche Bedingung wie im nodeTemplate)
+  private getVisibleChildren(node: Node, level: number): Node[] {
+    const showChildren = level === 0 ||
+      this.isNodeExpandedAtLevel(node, level) ||
+      this.isFocusedNode(node) ||
+      this.isFocusedParent(node) ||
+      this.isInFocusedBranch(node);
+    return showChildren ? node.children ?? [] : [];
   }
 
   // --- Zoom Handlers ---
@@ -2560,13 +3567,16 @@ export class AppComponent {
     const numLevel = Number(level);
     const activeCategories = this.activeCategories();
 
-    if (activeCategories.size > 0) {
-      if (numLevel <= 1) return false;
-
+    if (activeCategories.size > 0 && numLevel >= 2) {
       const isMatch = node.categoryIds.some(id => activeCategories.has(id));
       const isPath = this.hasAnyCategoryMatch(node, activeCategories);
-      if (isMatch || isPath) return false;
-      return true;
+      if (!isMatch && !isPath) return true;
+    }
+
+    // Status-Filter: L1+ ohne den Status (auch nicht bei Nachkommen) abblenden
+    const statusPath = this.statusFilterPath();
+    if (statusPath && numLevel >= 1) {
+      return !statusPath.has(node.id);
     }
 
     return false;
@@ -2585,6 +3595,9 @@ export class AppComponent {
     const selectedInfo = this.selectedInfoNode();
     if (selectedInfo && node.id === selectedInfo.id) return false;
 
+    // Status-Filter: Nodes mit dem Status und ihre Vorfahren sind scharf
+    if (this.statusFilterPath()?.has(node.id)) return false;
+
     // Hover-Pfad: Node und alle Vorfahren sind scharf
     if (this.isOnHoveredPath(node)) return false;
 
@@ -2686,13 +3699,13 @@ export class AppComponent {
     // L2 im Finanzhaus highlighten (wenn vorhanden), sonst L1-Kategorien
     let l2IdToHighlight: string | null = null;
 
-    if (level === 2 && this.FINANZHAUS_L2_IDS.has(node.id)) {
+    if (level === 2 && this.finanzhausTileNodeIds().has(node.id)) {
       // Direkt auf L2: dieses L2 highlighten
       l2IdToHighlight = node.id;
     } else if (level >= 3) {
       // L3+: L2-Parent im Pfad finden (path[2] ist L2)
       const path = this.findPathToNode(this.rootNode(), node.id);
-      if (path && path.length >= 3 && this.FINANZHAUS_L2_IDS.has(path[2])) {
+      if (path && path.length >= 3 && this.finanzhausTileNodeIds().has(path[2])) {
         l2IdToHighlight = path[2];
       }
     }
@@ -2710,9 +3723,13 @@ export class AppComponent {
     // L3+ zeigt Tooltip nur per Click, nicht per Hover
     if (level >= 3 || !node.tooltip) return;
 
+    this.showNodeTooltip(node, (event.target as HTMLElement).getBoundingClientRect());
+  }
+
+  // Hover-Tooltip über bzw. unter dem Node anzeigen (innerhalb des Fensters)
+  private showNodeTooltip(node: Node, rect: DOMRect): void {
     this.hoveredNode.set(node);
 
-    const rect = (event.target as HTMLElement).getBoundingClientRect();
     const tooltipHeight = 200;
     const tooltipWidth = 320;
 
@@ -1,7 +1,7 @@
-import { Component, inject, input, output } from '@angular/core';
+import { Component, computed, input, output } from '@angular/core';
 import { CommonModule } from '@angular/common';
-import { CategoryId } from '../services/data.service';
-import { I18nService } from '../services/i18n.service';
+import { Category, CategoryId, getCategoryStyle } from '../services/data.service';
+import { FinanzhausTile } from '../tools/finanzhaus-format';
 
 @Component({
   selector: 'app-finanzhaus',
@@ -10,8 +10,9 @@ import { I18nService } from '../services/i18n.service';
   templateUrl: './finanzhaus.component.html'
 })
 export class FinanzhausComponent {
-  i18n = inject(I18nService);
-
+  categories = input<Category[]>([]);
+  /** Symbole der Kategorien (nur in Themes mit Symbolen) */
+  markers = input<Record<CategoryId, string>>({});
   activeCategories = input<Set<CategoryId>>(new Set());
   hoveredCategories = input<CategoryId[]>([]);
   selectedL2NodeIds = input<Set<string>>(new Set());
@@ -19,15 +20,55 @@ export class FinanzhausComponent {
   categorySelected = output<CategoryId>();
   l2Selected = output<{ l2Id: string; fallbackCategory: CategoryId }>();
 
+  // Aufbau aus categories[].house: Dach = Kategorie in Zeile 0, darunter die Etagen von oben nach unten
+  roof = computed(() => this.categories().find(c => c.house?.row === 0) ?? null);
+
+  // Eine Kategorie pro Zeile = Abschnitt, mehrere = Säulen (sortiert nach house.column)
+  floors = computed(() => {
+    const rows = new Map<number, Category[]>();
+    for (const category of this.categories()) {
+      if (!category.house || category.house.row === 0) continue;
+      rows.set(category.house.row, [...(rows.get(category.house.row) ?? []), category]);
+    }
+    return [...rows.entries()]
+      .sort(([a], [b]) => a - b)
+      .map(([, categories]) => categories.sort((a, b) => (a.house.column ?? 0) - (b.house.column ?? 0)));
+  });
+
+  styles = computed(() =>
+    Object.fromEntries(this.categories().map(c => [c.id, getCategoryStyle(c)])) as Record<CategoryId, Record<string, string>>
+  );
+
+  getTiles(category: Category): FinanzhausTile[] {
+    return category.house?.tiles ?? [];
+  }
+
   selectCategory(id: CategoryId): void {
     this.categorySelected.emit(id);
   }
 
+  // Titel-Button einer Section/Säule (Tastatur und Screenreader); Klick nicht zusätzlich an den Container geben
+  toggleCategory(id: CategoryId, event: Event): void {
+    event.stopPropagation();
+    this.selectCategory(id);
+  }
+
   selectL2(l2Id: string, fallbackCategory: CategoryId, event: Event): void {
     event.stopPropagation();
     this.l2Selected.emit({ l2Id, fallbackCategory });
   }
 
+  // Tastatur: Enter und Leertaste wirken wie ein Klick (Leertaste ohne zu scrollen)
+  onCategoryKeydown(id: CategoryId, event: Event): void {
+    event.preventDefault();
+    this.selectCategory(id);
+  }
+
+  onL2Keydown(l2Id: string, fallbackCategory: CategoryId, event: Event): void {
+    event.preventDefault();
+    this.selectL2(l2Id, fallbackCategory, event);
+  }
+
   isActive(id: CategoryId): boolean {
     return this.activeCategories().has(id);
   }
@@ -43,8 +84,4 @@ export class FinanzhausComponent {
   isL2Hovered(l2Id: string): boolean {
     return this.hoveredL2NodeId() === l2Id;
   }
-
-  t(key: string): string {
-    return this.i18n.t(key);
-  }
 }
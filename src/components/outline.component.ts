@@ -0,0 +1,130 @@
+import { Component, computed, inject, input, output } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { Category, CategoryId, Node, getCategoryStyle } from '../services/data.service';
+import { I18nService } from '../services/i18n.service';
+import { NodeStatus } from '../tools/node-status';
+
+// Sichtbare Zeile der Gliederung
+export interface OutlineRow {
+  node: Node;
+  level: number;
+  expanded: boolean;
+  dimmed: boolean;
+  /** Tooltip direkt unter dem Label: L0–L2 immer, L3+ wenn als Info geöffnet */
+  showTooltip: boolean;
+}
+
+// Ab dieser Ebene öffnet ein Klick die Info (wie in der MindMap)
+const INFO_LEVEL = 3;
+
+/**
+ * Gliederungsansicht als Alternative zur MindMap (z.B. auf kleinen Bildschirmen).
+ * Arbeitet auf denselben Signalen wie die Karte: aufgeklappte Nodes, Filter und geöffnete Info.
+ */
+@Component({
+  selector: 'app-outline',
+  standalone: true,
+  imports: [CommonModule],
+  templateUrl: './outline.component.html'
+})
+export class OutlineComponent {
+  private i18n = inject(I18nService);
+
+  root = input.required<Node>();
+  categories = input<Category[]>([]);
+  /** Symbole der Kategorien (nur in Themes mit Symbolen) */
+  markers = input<Record<CategoryId, string>>({});
+  expandedNodes = input<Set<string>>(new Set());
+  activeCategories = input<Set<CategoryId>>(new Set());
+  selectedInfoNodeId = input<string | null>(null);
+  /** Bedarfs-Checkliste: Status je Node-ID */
+  statuses = input<Record<string, NodeStatus>>({});
+  /** Status-Filter: Nodes mit dem Status und ihre Vorfahren (null = kein Filter) */
+  statusPath = input<Set<string> | null>(null);
+  nodeToggled = output<Node>();
+  infoToggled = output<Node>();
+
+  // Nodes in Baumreihenfolge; aufgeklappt wie in der Karte (manuell oder durch den Filter)
+  rows = computed(() => {
+    const expanded = this.expandedNodes();
+    const filter = this.activeCategories();
+    const infoId = this.selectedInfoNodeId();
+    const statusPath = this.statusPath();
+    const rows: OutlineRow[] = [];
+
+    const walk = (node: Node, level: number) => {
+      const isExpanded = level === 0 || expanded.has(node.id) || (filter.size > 0 && hasAnyCategoryMatch(node, filter));
+      rows.push({
+        node,
+        level,
+        expanded: isExpanded && !!node.children?.length,
+        dimmed: (filter.size > 0 && level >= 2 && !hasAnyCategoryMatch(node, filter)) ||
+          (!!statusPath && level >= 1 && !statusPath.has(node.id)),
+        showTooltip: !!node.tooltip && (level < INFO_LEVEL || node.id === infoId)
+      });
+      if (isExpanded) {
+        node.children?.forEach(child => walk(child, level + 1));
+      }
+    };
+    walk(this.root(), 0);
+    return rows;
+  });
+
+  private roofCategoryIds = computed(() =>
+    new Set(this.categories().filter(c => c.house?.row === 0).map(c => c.id))
+  );
+
+  private categoryStyles = computed(() =>
+    Object.fromEntries(this.categories().map(c => [c.id, getCategoryStyle(c)])) as Record<CategoryId, Record<string, string>>
+  );
+
+  t(key: string): string {
+    return this.i18n.t(key);
+  }
+
+  getCategoryStyle(node: Node): Record<string, string> | null {
+    return this.categoryStyles()[this.getPrimaryCategory(node)] ?? null;
+  }
+
+  getStatus(node: Node): NodeStatus | null {
+    return this.statuses()[node.id] ?? null;
+  }
+
+  getMarker(node: Node): string | null {
+    return this.markers()[this.getPrimaryCategory(node)] ?? null;
+  }
+
+  // Erste Kategorie außerhalb des Dachs (wie getPrimaryCategory der Karte)
+  private getPrimaryCategory(node: Node): CategoryId {
+    const roofIds = this.roofCategoryIds();
+    return node.categoryIds.find(id => !roofIds.has(id)) ?? node.categoryIds[0] ?? this.root().categoryIds[0];
+  }
+
+  // Auf-/zuklappen wie in der Karte nur für L1 und L2
+  canToggle(row: OutlineRow): boolean {
+    return row.level > 0 && row.level < INFO_LEVEL && !!row.node.children?.length;
+  }
+
+  // Ab L3 öffnet ein Klick den Tooltip als Info
+  hasInfo(row: OutlineRow): boolean {
+    return row.level >= INFO_LEVEL && !!row.node.tooltip;
+  }
+
+  isInfoOpen(row: OutlineRow): boolean {
+    return row.node.id === this.selectedInfoNodeId();
+  }
+
+  // Klick auf eine Zeile: Unterebenen auf-/zuklappen bzw. ab L3 die Info öffnen/schließen
+  select(row: OutlineRow): void {
+    if (this.canToggle(row)) {
+      this.nodeToggled.emit(row.node);
+    } else if (this.hasInfo(row)) {
+      this.infoToggled.emit(row.node);
+    }
+  }
+}
+
+function hasAnyCategoryMatch(node: Node, categories: Set<CategoryId>): boolean {
+  if (node.categoryIds.some(id => categories.has(id))) return true;
+  return node.children?.some(child => hasAnyCategoryMatch(child, categories)) ?? false;
+}
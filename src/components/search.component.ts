@@ -0,0 +1,82 @@
+import { Component, computed, inject, input, output, signal } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { Node } from '../services/data.service';
+import { I18nService } from '../services/i18n.service';
+import { SearchEntry, searchNodes } from '../tools/node-search';
+
+@Component({
+  selector: 'app-search',
+  standalone: true,
+  imports: [CommonModule],
+  templateUrl: './search.component.html'
+})
+export class SearchComponent {
+  private i18n = inject(I18nService);
+
+  index = input<SearchEntry[]>([]);
+  nodeSelected = output<Node>();
+
+  query = signal('');
+  activeIndex = signal(0);
+  open = signal(false);
+
+  results = computed(() => searchNodes(this.index(), this.query()));
+
+  t(key: string): string {
+    return this.i18n.t(key);
+  }
+
+  getPath(entry: SearchEntry): string {
+    return entry.path.join(' › ');
+  }
+
+  updateQuery(value: string): void {
+    this.query.set(value);
+    this.activeIndex.set(0);
+    this.open.set(true);
+  }
+
+  handleKeydown(event: KeyboardEvent): void {
+    const count = this.results().length;
+
+    switch (event.key) {
+      case 'ArrowDown':
+        event.preventDefault();
+        if (count > 0) this.activeIndex.set((this.activeIndex() + 1) % count);
+        this.open.set(true);
+        break;
+      case 'ArrowUp':
+        event.preventDefault();
+        if (count > 0) this.activeIndex.set((this.activeIndex() - 1 + count) % count);
+        break;
+      case 'Enter': {
+        const result = this.results()[this.activeIndex()];
+        if (result) this.select(result.entry);
+        break;
+      }
+      case 'Escape':
+        if (this.open() && this.query()) {
+          this.open.set(false);
+        } else {
+          this.clear();
+        }
+        break;
+    }
+  }
+
+  select(entry: SearchEntry): void {
+    this.open.set(false);
+    this.nodeSelected.emit(entry.node);
+  }
+
+  clear(): void {
+    this.query.set('');
+    this.activeIndex.set(0);
+    this.open.set(false);
+  }
+
+  // Verzögert schließen, damit ein Klick auf einen Treffer noch ankommt
+  handleBlur(): void {
+    setTimeout(() => this.open.set(false), 150);
+  }
+}
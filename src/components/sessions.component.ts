@@ -0,0 +1,101 @@
+import { Component, ElementRef, computed, inject, input, output, signal, viewChild } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { DataModeOption } from '../services/data.service';
+import { I18nService } from '../services/i18n.service';
+import { Session, SessionService } from '../services/session.service';
+
+// Notizen erst nach einer Tipp-Pause speichern
+const NOTES_SAVE_DELAY = 500;
+
+@Component({
+  selector: 'app-sessions',
+  standalone: true,
+  imports: [CommonModule],
+  templateUrl: './sessions.component.html'
+})
+export class SessionsComponent {
+  private i18n = inject(I18nService);
+  private sessionService = inject(SessionService);
+
+  dataModes = input<DataModeOption[]>([]);
+  activeSessionId = input<string | null>(null);
+  sessionOpened = output<Session>();
+  createRequested = output<string>();
+  updateRequested = output<string>();
+  closed = output<void>();
+
+  sessions = this.sessionService.sessions;
+  activeSession = computed(() => this.sessions().find(s => s.id === this.activeSessionId()) ?? null);
+
+  newName = signal('');
+  editingId = signal<string | null>(null);
+  private renameInput = viewChild<ElementRef<HTMLInputElement>>('renameInput');
+  private notesTimeout: ReturnType<typeof setTimeout> | null = null;
+
+  t(key: string): string {
+    return this.i18n.t(key);
+  }
+
+  getModeLabel(session: Session): string {
+    return this.dataModes().find(mode => mode.id === session.dataMode)?.label ?? session.dataMode;
+  }
+
+  isAvailable(session: Session): boolean {
+    return this.dataModes().some(mode => mode.id === session.dataMode);
+  }
+
+  formatDate(timestamp: number): string {
+    return new Date(timestamp).toLocaleString(this.i18n.language(), { dateStyle: 'short', timeStyle: 'short' });
+  }
+
+  create(): void {
+    const name = this.newName().trim() || `${this.t('sessions.defaultName')} ${this.formatDate(Date.now())}`;
+    this.createRequested.emit(name);
+    this.newName.set('');
+  }
+
+  open(session: Session): void {
+    if (!this.isAvailable(session) || this.editingId() === session.id) return;
+    this.sessionOpened.emit(session);
+  }
+
+  startRename(session: Session): void {
+    this.editingId.set(session.id);
+    // Eingabefeld erst nach dem Rendern vorhanden
+    setTimeout(() => this.renameInput()?.nativeElement.select());
+  }
+
+  async finishRename(session: Session, name: string): Promise<void> {
+    if (this.editingId() !== session.id) return;
+    this.editingId.set(null);
+    name = name.trim();
+    if (name && name !== session.name) {
+      await this.sessionService.rename(session.id, name);
+    }
+  }
+
+  handleRenameKeydown(event: KeyboardEvent, session: Session): void {
+    if (event.key === 'Enter') {
+      this.finishRename(session, (event.target as HTMLInputElement).value);
+    } else if (event.key === 'Escape') {
+      this.editingId.set(null);
+    }
+  }
+
+  async duplicate(session: Session): Promise<void> {
+    await this.sessionService.duplicate(session.id, `${session.name} (${this.t('sessions.copy')})`);
+  }
+
+  async delete(session: Session): Promise<void> {
+    if (!window.confirm(this.t('sessions.confirmDelete').replace('{name}', session.name))) return;
+    await this.sessionService.delete(session.id);
+  }
+
+  updateNotes(session: Session, notes: string): void {
+    if (this.notesTimeout) clearTimeout(this.notesTimeout);
+    this.notesTimeout = setTimeout(() => {
+      this.notesTimeout = null;
+      this.sessionService.update(session.id, { notes });
+    }, NOTES_SAVE_DELAY);
+  }
+}
@@ -0,0 +1,125 @@
+import { Component, computed, inject, input, output, signal } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { DataModeOption } from '../services/data.service';
+import { I18nService } from '../services/i18n.service';
+import { TourService } from '../services/tour.service';
+import { Tour, parseTourFile } from '../tools/tour-file';
+
+// Schritt einer Tour (für Ausgaben an die App)
+export interface TourStepRef {
+  tourId: string;
+  index: number;
+}
+
+/**
+ * Präsentationen vorbereiten: Touren anlegen, die aktuelle Ansicht als Schritt aufnehmen,
+ * Schritte benennen, sortieren und anzeigen, Touren abspielen sowie als JSON ex- und importieren.
+ */
+@Component({
+  selector: 'app-tours',
+  standalone: true,
+  imports: [CommonModule],
+  templateUrl: './tours.component.html'
+})
+export class ToursComponent {
+  private i18n = inject(I18nService);
+  private tourService = inject(TourService);
+
+  dataModes = input<DataModeOption[]>([]);
+  dataMode = input<string>('');
+  stepAddRequested = output<string>();
+  stepReplaceRequested = output<TourStepRef>();
+  stepShown = output<TourStepRef>();
+  playRequested = output<TourStepRef>();
+  exportRequested = output<Tour>();
+  closed = output<void>();
+
+  tours = this.tourService.tours;
+  selectedTourId = signal<string | null>(null);
+  selectedTour = computed(() => this.tours().find(t => t.id === this.selectedTourId()) ?? null);
+
+  newName = signal('');
+  importError = signal<string | null>(null);
+
+  t(key: string): string {
+    return this.i18n.t(key);
+  }
+
+  getModeLabel(tour: Tour): string {
+    return this.dataModes().find(mode => mode.id === tour.dataMode)?.label ?? tour.dataMode;
+  }
+
+  isAvailable(tour: Tour): boolean {
+    return this.dataModes().some(mode => mode.id === tour.dataMode);
+  }
+
+  getStepCount(tour: Tour): string {
+    return this.t('tours.stepCount').replace('{count}', String(tour.steps.length));
+  }
+
+  // Schritte lassen sich nur im Datenmodus der Tour aufnehmen
+  getOtherModeHint(tour: Tour): string {
+    return this.t('tours.otherMode').replace('{mode}', this.getModeLabel(tour));
+  }
+
+  create(): void {
+    const name = this.newName().trim() || `${this.t('tours.defaultName')} ${this.tours().length + 1}`;
+    const tour = this.tourService.create(name, this.dataMode());
+    this.selectedTourId.set(tour.id);
+    this.newName.set('');
+  }
+
+  select(tour: Tour): void {
+    this.selectedTourId.set(this.selectedTourId() === tour.id ? null : tour.id);
+  }
+
+  play(tour: Tour): void {
+    if (!this.isAvailable(tour) || tour.steps.length === 0) return;
+    this.playRequested.emit({ tourId: tour.id, index: 0 });
+  }
+
+  delete(tour: Tour): void {
+    if (!window.confirm(this.t('tours.confirmDelete').replace('{name}', tour.name))) return;
+    this.tourService.delete(tour.id);
+    if (this.selectedTourId() === tour.id) this.selectedTourId.set(null);
+  }
+
+  rename(tour: Tour, name: string): void {
+    name = name.trim();
+    if (name && name !== tour.name) {
+      this.tourService.rename(tour.id, name);
+    }
+  }
+
+  renameStep(tour: Tour, index: number, title: string): void {
+    const step = tour.steps[index];
+    title = title.trim();
+    if (step && title && title !== step.title) {
+      this.tourService.replaceStep(tour.id, index, { ...step, title });
+    }
+  }
+
+  moveStep(tour: Tour, index: number, offset: number): void {
+    this.tourService.moveStep(tour.id, index, offset);
+  }
+
+  removeStep(tour: Tour, index: number): void {
+    this.tourService.removeStep(tour.id, index);
+  }
+
+  // Tour-Datei übernehmen (<input type="file">); Fehler werden im Panel angezeigt
+  async importFile(input: HTMLInputElement): Promise<void> {
+    const file = input.files?.[0];
+    input.value = '';
+    if (!file) return;
+
+    try {
+      const tour = this.tourService.import(parseTourFile(JSON.parse(await file.text())));
+      this.selectedTourId.set(tour.id);
+      this.importError.set(null);
+    } catch (e) {
+      console.warn('Failed to import tour:', e);
+      this.importError.set(`${file.name}: ${e instanceof Error ? e.message : String(e)}`);
+    }
+  }
+}
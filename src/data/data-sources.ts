@@ -0,0 +1,37 @@
+/**
+ * Gebündelte Datenmodi mit ihren Datendateien je Sprache und ihrem Standard-Layout
+ * (erstellt im Debug-Panel mit "Layout → Als Standard speichern").
+ *
+ * Frei von Angular-Abhängigkeiten, damit auch die Node-Skripte unter /scripts
+ * (z.B. die Sprachprüfung) auf dieselbe Tabelle zugreifen können.
+ * Datenpakete deklarieren weitere Modi im selben Format (siehe tools/data-pack.ts).
+ */
+import type { DataModeDefinition } from "../tools/data-pack";
+
+// Beratung (alte JSON)
+import beratungDataDe from "./finanzhaus-data.de.json";
+import beratungDataEn from "./finanzhaus-data.en.json";
+import beratungDefaultLayout from "./beratung.default-layout.json";
+
+// Produkte (neue JSON)
+import produkteDataDe from "./finanzhaus-data-new.de.json";
+import produkteDataEn from "./finanzhaus-data-new.en.json";
+import produkteDefaultLayout from "./produkte.default-layout.json";
+
+/** ID eines Datenmodus, z.B. "beratung", "produkte" oder ein Modus aus einem Datenpaket */
+export type DataMode = string;
+
+export const bundledDataModes: DataModeDefinition[] = [
+  {
+    id: 'beratung',
+    label: { de: 'Beratung', en: 'Consulting' },
+    data: { de: beratungDataDe, en: beratungDataEn },
+    defaultLayout: beratungDefaultLayout
+  },
+  {
+    id: 'produkte',
+    label: { de: 'Produkte', en: 'Products' },
+    data: { de: produkteDataDe, en: produkteDataEn },
+    defaultLayout: produkteDefaultLayout
+  }
+];
@@ -1,28 +1,26 @@
-import { Injectable, inject, signal, Signal } from "@angular/core";
+import { Injectable, computed, inject, signal, Signal } from "@angular/core";
 import { I18nService, Language } from "./i18n.service";
+import { FinanzDataCategory, FinanzDataFile, collectImages, mapNode, mapRootNode } from "../tools/finanzhaus-format";
+import { formatIssue, validateFinanzData } from "../tools/finanzhaus-validator";
+import { DataMode, bundledDataModes } from "../data/data-sources";
+import { DataModeDefinition, DataPack, getDataModeLabel, mergeDataModes, parseDataPack } from "../tools/data-pack";
+import { ViewState } from "../tools/layout-file";
+import { THEME_PALETTE_SIZE } from "./theme.service";
 
-// Beratung (alte JSON)
-import beratungDataDe from "../data/finanzhaus-data.de.json";
-import beratungDataEn from "../data/finanzhaus-data.en.json";
-
-// Produkte (neue JSON)
-import produkteDataDe from "../data/finanzhaus-data-new.de.json";
-import produkteDataEn from "../data/finanzhaus-data-new.en.json";
-
-export type CategoryId =
-  | "zahlungsverkehr"
-  | "finanzierung"
-  | "vermoegen"
-  | "absicherung"
-  | "ausland"
-  | "vorsorge"
-  | "gruendung"
-  | "strategie"
-  | "privat_finanz";
-
-export interface Category {
-  id: CategoryId;
-  label: string;
+export type { DataMode } from "../data/data-sources";
+
+// Kategorien sind vollständig in der Datendatei beschrieben (ID, Label, Farben, Icon, Position im Finanzhaus)
+export type CategoryId = string;
+
+export type Category = FinanzDataCategory;
+
+/** CSS-Variablen einer Kategorie für [style]-Bindings (siehe .category und .node--category in styles.css). */
+export function getCategoryStyle(category: Category): Record<string, string> {
+  return {
+    '--category-color': category.color,
+    '--category-text': category.textColor,
+    '--category-accent': category.accentColor ?? category.color
+  };
 }
 
 export interface Node {
@@ -30,24 +28,19 @@ export interface Node {
   label: string;
   categoryIds: CategoryId[];
   icon?: string;
+  /** Eigenes Piktogramm aus den Daten (ohne Vererbung) */
+  image?: string;
   tooltip?: string;
   children?: Node[];
 }
 
-export type DataMode = 'beratung' | 'produkte';
+export interface DataModeOption {
+  id: DataMode;
+  label: string;
+}
 
-type FinanzData = typeof produkteDataDe;
-
-const dataByModeAndLanguage: Record<DataMode, Record<Language, FinanzData>> = {
-  beratung: {
-    de: beratungDataDe as unknown as FinanzData,
-    en: beratungDataEn as unknown as FinanzData
-  },
-  produkte: {
-    de: produkteDataDe as unknown as FinanzData,
-    en: produkteDataEn as unknown as FinanzData
-  }
-};
+const DATA_PACK_QUERY_PARAM = 'data';
+const DATA_PACK_META_NAME = 'finanzhaus-data-pack';
 
 @Injectable({
   providedIn: "root",
@@ -55,72 +48,253 @@ const dataByModeAndLanguage: Record<DataMode, Record<Language, FinanzData>> = {
 export class DataService {
   private i18n = inject(I18nService);
 
-  // Datenmodus: beratung oder produkte
-  private _dataMode = signal<DataMode>('beratung');
-  dataMode: Signal<DataMode> = this._dataMode.asReadonly();
+  // Zur Laufzeit geladenes Datenpaket (null = gebündelte Daten)
+  private dataPack = signal<DataPack | null>(null);
+  dataPackName = computed(() => {
+    const pack = this.dataPack();
+    return pack ? pack.name ?? '' : null;
+  });
+
+  // Registry aller Datenmodi: gebündelte Modi, ergänzt bzw. ersetzt durch die Modi des Datenpakets
+  private modeDefinitions = computed<DataModeDefinition[]>(() => {
+    const pack = this.dataPack();
+    return pack ? mergeDataModes(bundledDataModes, pack.modes) : bundledDataModes;
+  });
+
+  dataModes: Signal<DataModeOption[]> = computed(() => {
+    const language = this.i18n.language();
+    return this.modeDefinitions().map(mode => ({ id: mode.id, label: getDataModeLabel(mode, language) }));
+  });
+
+  // Gewählter Datenmodus; ist er (noch) nicht registriert, gilt der erste Modus der Registry.
+  // So bleibt z.B. ein Modus aus einem Datenpaket gewählt, während das Paket noch lädt.
+  private requestedDataMode = signal<DataMode>(bundledDataModes[0].id);
+  dataMode: Signal<DataMode> = computed(() => {
+    const requested = this.requestedDataMode();
+    const modes = this.modeDefinitions();
+    return modes.some(mode => mode.id === requested) ? requested : modes[0].id;
+  });
 
   setDataMode(mode: DataMode): void {
-    this._dataMode.set(mode);
+    this.requestedDataMode.set(mode);
+  }
+
+  // Lade- und Fehlerzustand für Spinner / Fehlerbanner
+  private _isLoading = signal<boolean>(false);
+  isLoading: Signal<boolean> = this._isLoading.asReadonly();
+  private _loadError = signal<string | null>(null);
+  loadError: Signal<string | null> = this._loadError.asReadonly();
+
+  // Zähler, damit nur die zuletzt gestartete Ladeoperation ihr Ergebnis setzt
+  private loadCounter = 0;
+
+  /**
+   * URL eines beim Start zu ladenden Datenpakets:
+   * Query-Parameter ?data=… oder <meta name="finanzhaus-data-pack" content="…"> in index.html
+   */
+  getConfiguredDataPackUrl(): string | null {
+    try {
+      const fromQuery = new URLSearchParams(window.location.search).get(DATA_PACK_QUERY_PARAM);
+      if (fromQuery) return fromQuery;
+      const meta = document.querySelector<HTMLMetaElement>(`meta[name="${DATA_PACK_META_NAME}"]`);
+      return meta?.content || null;
+    } catch (e) {
+      console.warn('Failed to read data pack URL:', e);
+      return null;
+    }
+  }
+
+  async loadDataPackFromUrl(url: string): Promise<boolean> {
+    return this.loadDataPack(url, async () => {
+      const response = await fetch(url);
+      if (!response.ok) {
+        throw new Error(`HTTP ${response.status} ${response.statusText}`.trim());
+      }
+      return response.json();
+    });
+  }
+
+  async loadDataPackFromFile(file: File): Promise<boolean> {
+    return this.loadDataPack(file.name, async () => JSON.parse(await file.text()));
   }
 
-  toggleDataMode(): void {
-    this._dataMode.set(this._dataMode() === 'beratung' ? 'produkte' : 'beratung');
+  // Zurück zu den gebündelten Daten
+  useBundledData(): void {
+    this.loadCounter++;
+    this.dataPack.set(null);
+    this._isLoading.set(false);
+    this._loadError.set(null);
   }
 
-  private getData(): FinanzData {
-    return dataByModeAndLanguage[this._dataMode()][this.i18n.language()];
+  clearLoadError(): void {
+    this._loadError.set(null);
+  }
+
+  // Bei Fehlern bleiben die bisherigen Daten (gebündelt oder letztes Paket) aktiv
+  private async loadDataPack(source: string, read: () => Promise<unknown>): Promise<boolean> {
+    const loadId = ++this.loadCounter;
+    this._isLoading.set(true);
+    this._loadError.set(null);
+
+    try {
+      const { pack, warnings } = parseDataPack(await read(), {
+        name: source.split(/[\\/]/).pop(),
+        mode: this.dataMode(),
+        language: this.i18n.language()
+      });
+      if (loadId !== this.loadCounter) return false;
+
+      for (const warning of warnings) {
+        console.warn(`Data pack validation (${source}) ${formatIssue(warning)}`);
+      }
+      for (const mode of pack.modes) {
+        Object.values(mode.data).forEach(data => data && this.validatedData.add(data));
+      }
+      this.dataPack.set(pack);
+      return true;
+    } catch (e) {
+      if (loadId !== this.loadCounter) return false;
+      console.warn('Failed to load data pack:', e);
+      this._loadError.set(`${source}: ${e instanceof Error ? e.message : e}`);
+      return false;
+    } finally {
+      if (loadId === this.loadCounter) {
+        this._isLoading.set(false);
+      }
+    }
+  }
+
+  // Bereits geprüfte Datendateien (Schema-Prüfung nur einmal pro Datei)
+  private validatedData = new WeakSet<FinanzDataFile>();
+
+  private getData(): FinanzDataFile {
+    const mode = this.dataMode();
+    const language = this.i18n.language();
+    const data = this.getModeData(mode, language);
+
+    if (!this.validatedData.has(data)) {
+      this.validatedData.add(data);
+      // Mehr Kategorien als Farben in den Theme-Paletten werden gemeldet
+      for (const issue of validateFinanzData(data, { paletteSize: THEME_PALETTE_SIZE })) {
+        console.warn(`Data validation (${mode}/${language}) ${formatIssue(issue)}`);
+      }
+      this.checkImages(data, mode, language);
+    }
+
+    return data;
+  }
+
+  // Bereits geprüfte Bilder (jeder Pfad wird nur einmal angefragt)
+  private checkedImages = new Set<string>();
+
+  // Meldet Nodes und Kacheln, deren Bild nicht geladen werden kann (z.B. nach Umbenennung der Datei)
+  private checkImages(data: FinanzDataFile, mode: DataMode, language: Language): void {
+    const references = new Map<string, string[]>();
+    const add = (image: string, reference: string) =>
+      references.set(image, [...(references.get(image) ?? []), reference]);
+
+    for (const [nodeId, image] of Object.entries(collectImages(data))) {
+      add(image, nodeId);
+    }
+    for (const category of data.categories) {
+      for (const tile of category.house?.tiles ?? []) {
+        add(tile.image, `${category.id}/${tile.node}`);
+      }
+    }
+
+    for (const [image, nodeIds] of references) {
+      if (this.checkedImages.has(image)) continue;
+      this.checkedImages.add(image);
+
+      // Der Dev-Server liefert für unbekannte Pfade teils index.html aus
+      fetch(image, { method: 'HEAD' })
+        .then(response => {
+          if (!response.ok || response.headers.get('content-type')?.startsWith('text/html')) {
+            console.warn(`Missing image (${mode}/${language}) "${image}" used by ${nodeIds.join(', ')}`);
+          }
+        })
+        .catch(e => console.warn('Failed to check image:', e));
+    }
+  }
+
+  // Fehlt eine Sprache im Modus, wird eine andere Sprache desselben Modus verwendet
+  private getModeData(mode: DataMode, language: Language): FinanzDataFile {
+    const definition = this.getModeDefinition(mode);
+    const data = definition.data[language] ?? Object.values(definition.data).find(file => file !== undefined);
+    if (!data) {
+      throw new Error(`Data mode "${definition.id}" has no data files`);
+    }
+    return data;
   }
 
   getCategories(): Category[] {
-    return this.getData().categories as Category[];
+    return this.getData().categories;
   }
 
   getTreeData(): Node[] {
-    return this.getData().topics.map((topic) => this.mapNode(topic));
+    return this.getData().topics.map((topic) => mapNode(topic));
   }
 
   getRootNode(): Node {
-    const data = this.getData();
-    const rootData = data.root as { id: string; name: string; finanzhaus: string; icon: string };
-    return {
-      id: rootData.id,
-      label: rootData.name,
-      categoryIds: [rootData.finanzhaus as CategoryId],
-      icon: rootData.icon,
-      children: data.topics.map((topic) => this.mapNode(topic, rootData.id))
-    };
+    return mapRootNode(this.getData());
   }
 
-  private mapNode(data: any, parentId?: string): Node {
-    let categoryIds: CategoryId[];
-    if (Array.isArray(data.finanzhaus)) {
-      categoryIds = data.finanzhaus as CategoryId[];
-    } else if (data.finanzhaus) {
-      categoryIds = [data.finanzhaus as CategoryId];
-    } else {
-      categoryIds = ["strategie"];
+  // IDs aller Nodes des Modus in allen Sprachen (aus Namen erzeugte IDs unterscheiden sich je Sprache)
+  getNodeIds(): Set<string> {
+    const definition = this.getModeDefinition(this.dataMode());
+    const ids = new Set<string>();
+    for (const data of Object.values(definition.data)) {
+      if (data) collectNodeIds(mapRootNode(data)).forEach(id => ids.add(id));
     }
+    return ids;
+  }
+
+  /**
+   * Standard-Layout des aktuellen Modus (null = keins, Anordnung allein durch das Force-Layout).
+   * IDs aus einer anderen Sprache werden über die Position im Baum übersetzt,
+   * damit z.B. ein mit deutschen Daten erstelltes Layout auch für die englischen gilt.
+   */
+  getDefaultLayout(): ViewState | null {
+    const definition = this.getModeDefinition(this.dataMode());
+    const layout = definition.defaultLayout;
+    if (!layout) return null;
 
-    const nodeId = data.id || this.generateId(data.name, parentId);
+    const currentIds = collectNodeIds(this.getRootNode());
+    const translation = new Map(currentIds.map(id => [id, id]));
+    for (const data of Object.values(definition.data)) {
+      if (!data) continue;
+      const ids = collectNodeIds(mapRootNode(data));
+      // Nur bei gleicher Struktur (siehe Sprachprüfung) entsprechen sich die Positionen
+      if (ids.length !== currentIds.length) continue;
+      ids.forEach((id, i) => {
+        if (!translation.has(id)) translation.set(id, currentIds[i]);
+      });
+    }
 
+    const translate = (id: string) => translation.get(id) ?? id;
     return {
-      id: nodeId,
-      label: data.name,
-      categoryIds,
-      icon: data.icon,
-      tooltip: data.tooltip,
-      children: data.blaetter
-        ? data.blaetter.map((child: any) => this.mapNode(child, nodeId))
-        : undefined,
+      expandedNodes: layout.expandedNodes.map(translate),
+      activeCategories: [...layout.activeCategories],
+      zoomLevel: layout.zoomLevel,
+      panOffset: { ...layout.panOffset },
+      userPositions: Object.fromEntries(
+        Object.entries(layout.userPositions).map(([id, position]) => [translate(id), { ...position }])
+      )
     };
   }
 
-  private generateId(name: string, parentId?: string): string {
-    // Deterministisch: basiert auf Name und Parent-Pfad, kein Random
-    const baseName = name.toLowerCase().replace(/[^a-z0-9]/g, "_");
-    if (parentId) {
-      return `${parentId}_${baseName}`;
-    }
-    return baseName;
+  private getModeDefinition(mode: DataMode): DataModeDefinition {
+    return this.modeDefinitions().find(m => m.id === mode) ?? this.modeDefinitions()[0];
   }
 }
+
+// IDs aller Nodes in Preorder (Root zuerst)
+function collectNodeIds(root: Node): string[] {
+  const ids: string[] = [];
+  const walk = (node: Node) => {
+    ids.push(node.id);
+    node.children?.forEach(walk);
+  };
+  walk(root);
+  return ids;
+}
@@ -0,0 +1,235 @@
+import { Injectable } from '@angular/core';
+import { ViewState, findUnknownLayoutIds, removeLayoutIds } from '../tools/layout-file';
+import { Tour, parseTourFile } from '../tools/tour-file';
+import { isNodeStatus } from '../tools/node-status';
+import { isObject, isPosition } from '../tools/json-guards';
+
+/**
+ * Definition eines localStorage-Eintrags mit Schema-Version.
+ *
+ * Gespeichert wird { "version": n, "data": … }. Beim Lesen werden ältere Versionen
+ * Schritt für Schritt migriert (migrations[n] hebt Version n auf n + 1) und zurückgeschrieben.
+ * Einträge ohne Hülle (vor Einführung der Versionierung geschrieben) gelten als Version 0.
+ */
+export interface StorageEntry<T> {
+  key: string;
+  version: number;
+  migrations: Record<number, (data: unknown) => unknown>;
+  /** Prüft die (migrierten) Daten; null = unbrauchbar, Eintrag wird ignoriert */
+  parse: (data: unknown) => T | null;
+}
+
+interface StoredValue {
+  version: number;
+  data: unknown;
+}
+
+const VIEW_STATE_KEY_PREFIX = 'finanzhaus-view-state';
+
+export const DATA_MODE_ENTRY: StorageEntry<string> = {
+  key: 'finanzhaus-datamode',
+  version: 1,
+  migrations: {
+    // Version 0: Modus-ID als reiner String
+    0: data => data
+  },
+  // Auch unbekannte Modi übernehmen: sie können aus einem noch ladenden Datenpaket stammen
+  parse: data => typeof data === 'string' && data.length > 0 ? data : null
+};
+
+export const DEBUG_SIZES_ENTRY: StorageEntry<Record<string, number>> = {
+  key: 'finanzhaus-debug-sizes',
+  version: 1,
+  migrations: {
+    // Version 0: JSON-Objekt der Größen ohne Hülle
+    0: data => data
+  },
+  parse: data => isObject(data)
+    ? Object.fromEntries(Object.entries(data).filter(([, size]) => typeof size === 'number' && Number.isFinite(size))) as Record<string, number>
+    : null
+};
+
+/** Hintergrundfarbe vor Einführung der Themes; wird beim Laden in THEME_ENTRY übernommen */
+export const BACKGROUND_COLOR_ENTRY: StorageEntry<string> = {
+  key: 'finanzhaus-background-color',
+  version: 1,
+  migrations: {
+    // Version 0: Farbe als reiner String
+    0: data => data
+  },
+  parse: data => typeof data === 'string' && data.length > 0 ? data : null
+};
+
+export interface ThemeSettings {
+  theme: string;
+  backgroundColor: string;
+}
+
+export const THEME_ENTRY: StorageEntry<ThemeSettings> = {
+  key: 'finanzhaus-theme',
+  version: 1,
+  migrations: {},
+  // Unbekannte Theme-IDs prüft der ThemeService
+  parse: data => isObject(data) && typeof data['theme'] === 'string' && typeof data['backgroundColor'] === 'string'
+    ? { theme: data['theme'], backgroundColor: data['backgroundColor'] }
+    : null
+};
+
+/** Präsentationen aller Datenmodi */
+export const TOURS_ENTRY: StorageEntry<Tour[]> = {
+  key: 'finanzhaus-tours',
+  version: 1,
+  migrations: {},
+  parse: parseTours
+};
+
+/** Gespeicherte Ansicht je Datenmodus */
+export function viewStateEntry(dataMode: string): StorageEntry<ViewState> {
+  return {
+    key: `${VIEW_STATE_KEY_PREFIX}-${dataMode}`,
+    version: 1,
+    migrations: {
+      // Version 0: JSON-Objekt der Ansicht ohne Hülle (gleiche Felder)
+      0: data => data
+    },
+    parse: parseViewState
+  };
+}
+
+@Injectable({
+  providedIn: 'root'
+})
+export class PersistenceService {
+  load<T>(entry: StorageEntry<T>): T | null {
+    try {
+      const raw = localStorage.getItem(entry.key);
+      if (raw === null) return null;
+
+      const stored = unwrap(raw);
+      if (stored.version > entry.version) {
+        console.warn(`Stored ${entry.key} has version ${stored.version}, expected ${entry.version} or lower`);
+        return null;
+      }
+
+      let data = stored.data;
+      for (let version = stored.version; version < entry.version; version++) {
+        const migrate = entry.migrations[version];
+        if (!migrate) {
+          throw new Error(`No migration from version ${version}`);
+        }
+        data = migrate(data);
+      }
+
+      const value = entry.parse(data);
+      if (value !== null && stored.version < entry.version) {
+        this.save(entry, value);
+      }
+      return value;
+    } catch (e) {
+      console.warn(`Failed to load ${entry.key} from localStorage:`, e);
+      return null;
+    }
+  }
+
+  save<T>(entry: StorageEntry<T>, value: T): void {
+    try {
+      const stored: StoredValue = { version: entry.version, data: value };
+      localStorage.setItem(entry.key, JSON.stringify(stored));
+    } catch (e) {
+      console.warn(`Failed to save ${entry.key} to localStorage:`, e);
+    }
+  }
+
+  remove(entry: StorageEntry<unknown>): void {
+    try {
+      localStorage.removeItem(entry.key);
+    } catch (e) {
+      console.warn(`Failed to remove ${entry.key} from localStorage:`, e);
+    }
+  }
+
+  /**
+   * Lädt die Ansicht eines Datenmodus und entfernt IDs, die es in den Daten nicht mehr gibt
+   * (z.B. nach Umbenennung von Nodes). Gespeichert bleibt die ungekürzte Ansicht, bis die App sie überschreibt.
+   */
+  loadViewState(dataMode: string, nodeIds: Set<string>, categoryIds: string[]): ViewState | null {
+    const entry = viewStateEntry(dataMode);
+    const state = this.load(entry);
+    if (!state) return null;
+
+    const unknown = findUnknownLayoutIds(state, nodeIds, categoryIds);
+    if (unknown.nodeIds.length === 0 && unknown.categoryIds.length === 0) {
+      return state;
+    }
+
+    console.warn(`Removed unknown ids from ${entry.key}: ${[...unknown.nodeIds, ...unknown.categoryIds].join(', ')}`);
+    return removeLayoutIds(state, unknown);
+  }
+
+  saveViewState(dataMode: string, state: ViewState): void {
+    this.save(viewStateEntry(dataMode), state);
+  }
+
+  removeViewState(dataMode: string): void {
+    this.remove(viewStateEntry(dataMode));
+  }
+}
+
+// Versionierter Eintrag oder (Version 0) ein roher Wert – auch ein String, der kein JSON ist
+function unwrap(raw: string): StoredValue {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(raw);
+  } catch {
+    return { version: 0, data: raw };
+  }
+
+  if (isObject(parsed) && Number.isInteger(parsed['version']) && 'data' in parsed && Object.keys(parsed).length === 2) {
+    return { version: parsed['version'] as number, data: parsed['data'] };
+  }
+  return { version: 0, data: parsed };
+}
+
+// Felder einzeln prüfen: unbrauchbare Felder fallen auf den Standard zurück
+function parseViewState(data: unknown): ViewState | null {
+  if (!isObject(data)) return null;
+
+  const isIdList = (value: unknown): value is string[] =>
+    Array.isArray(value) && value.every(item => typeof item === 'string');
+
+  const zoomLevel = data['zoomLevel'];
+  const nodeStatuses = isObject(data['nodeStatuses'])
+    ? Object.fromEntries(Object.entries(data['nodeStatuses']).filter(([, status]) => isNodeStatus(status)))
+    : {};
+  const userPositions = isObject(data['userPositions'])
+    ? Object.fromEntries(Object.entries(data['userPositions']).filter(([, position]) => isPosition(position)))
+    : {};
+
+  return {
+    expandedNodes: isIdList(data['expandedNodes']) ? data['expandedNodes'] : [],
+    activeCategories: isIdList(data['activeCategories']) ? data['activeCategories'] : [],
+    zoomLevel: typeof zoomLevel === 'number' && zoomLevel > 0 ? zoomLevel : 1,
+    panOffset: isPosition(data['panOffset']) ? data['panOffset'] : { x: 0, y: 0 },
+    userPositions: userPositions as ViewState['userPositions'],
+    nodeStatuses: nodeStatuses as ViewState['nodeStatuses']
+  };
+}
+
+// Touren einzeln prüfen: ungültige werden verworfen, die übrigen bleiben erhalten
+function parseTours(data: unknown): Tour[] | null {
+  if (!Array.isArray(data)) return null;
+
+  return data.flatMap(item => {
+    try {
+      const { name, dataMode, steps } = parseTourFile(item);
+      const { id, updatedAt } = item as Record<string, unknown>;
+      if (typeof id !== 'string' || typeof updatedAt !== 'number') {
+        throw new Error('Tour ohne id/updatedAt');
+      }
+      return [{ id, name, dataMode, steps, updatedAt }];
+    } catch (e) {
+      console.warn('Failed to load tour:', e);
+      return [];
+    }
+  });
+}
@@ -0,0 +1,135 @@
+import { Injectable, signal } from '@angular/core';
+import { DataMode } from '../data/data-sources';
+import { ViewState } from '../tools/layout-file';
+import { createId } from '../tools/create-id';
+
+// Beratungsmappe: benannter Schnappschuss einer Ansicht mit Notizen (z.B. je Kunde)
+export interface Session {
+  id: string;
+  name: string;
+  dataMode: DataMode;
+  view: ViewState;
+  /** Im Info-Panel geöffneter Node */
+  selectedInfoNodeId: string | null;
+  notes: string;
+  createdAt: number;
+  updatedAt: number;
+}
+
+const DB_NAME = 'finanzhaus';
+const DB_VERSION = 1;
+const STORE_NAME = 'sessions';
+
+/**
+ * Beratungsmappen in IndexedDB (kein Größenlimit wie bei localStorage).
+ * Die Liste steht als Signal bereit, neueste Änderung zuerst.
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class SessionService {
+  private _sessions = signal<Session[]>([]);
+  private db: Promise<IDBDatabase> | null = null;
+
+  get sessions() {
+    return this._sessions.asReadonly();
+  }
+
+  constructor() {
+    this.refresh();
+  }
+
+  async create(name: string, dataMode: DataMode, view: ViewState, selectedInfoNodeId: string | null): Promise<Session | null> {
+    const now = Date.now();
+    const session: Session = {
+      id: createId(),
+      name,
+      dataMode,
+      view,
+      selectedInfoNodeId,
+      notes: '',
+      createdAt: now,
+      updatedAt: now
+    };
+    return (await this.put(session)) ? session : null;
+  }
+
+  async update(id: string, changes: Partial<Omit<Session, 'id' | 'createdAt' | 'updatedAt'>>): Promise<Session | null> {
+    const session = this._sessions().find(s => s.id === id);
+    if (!session) return null;
+
+    const updated: Session = { ...session, ...changes, updatedAt: Date.now() };
+    return (await this.put(updated)) ? updated : null;
+  }
+
+  rename(id: string, name: string): Promise<Session | null> {
+    return this.update(id, { name });
+  }
+
+  async duplicate(id: string, name: string): Promise<Session | null> {
+    const session = this._sessions().find(s => s.id === id);
+    if (!session) return null;
+
+    const now = Date.now();
+    const copy: Session = { ...structuredClone(session), id: createId(), name, createdAt: now, updatedAt: now };
+    return (await this.put(copy)) ? copy : null;
+  }
+
+  async delete(id: string): Promise<void> {
+    try {
+      await this.request(store => store.delete(id), 'readwrite');
+      this._sessions.set(this._sessions().filter(s => s.id !== id));
+    } catch (e) {
+      console.warn('Failed to delete session:', e);
+    }
+  }
+
+  private async refresh(): Promise<void> {
+    try {
+      const sessions = await this.request<Session[]>(store => store.getAll());
+      this._sessions.set(sortSessions(sessions));
+    } catch (e) {
+      console.warn('Failed to load sessions:', e);
+    }
+  }
+
+  private async put(session: Session): Promise<boolean> {
+    try {
+      await this.request(store => store.put(session), 'readwrite');
+      this._sessions.set(sortSessions([...this._sessions().filter(s => s.id !== session.id), session]));
+      return true;
+    } catch (e) {
+      console.warn('Failed to save session:', e);
+      return false;
+    }
+  }
+
+  private async request<T>(run: (store: IDBObjectStore) => IDBRequest, mode: IDBTransactionMode = 'readonly'): Promise<T> {
+    const db = await this.open();
+    return new Promise<T>((resolve, reject) => {
+      const request = run(db.transaction(STORE_NAME, mode).objectStore(STORE_NAME));
+      request.onsuccess = () => resolve(request.result as T);
+      request.onerror = () => reject(request.error);
+    });
+  }
+
+  private open(): Promise<IDBDatabase> {
+    if (!this.db) {
+      this.db = new Promise<IDBDatabase>((resolve, reject) => {
+        const request = indexedDB.open(DB_NAME, DB_VERSION);
+        request.onupgradeneeded = () => {
+          request.result.createObjectStore(STORE_NAME, { keyPath: 'id' });
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+      });
+      // Fehlgeschlagenes Öffnen (z.B. privater Modus) beim nächsten Zugriff erneut versuchen
+      this.db.catch(() => this.db = null);
+    }
+    return this.db;
+  }
+}
+
+function sortSessions(sessions: Session[]): Session[] {
+  return [...sessions].sort((a, b) => b.updatedAt - a.updatedAt);
+}
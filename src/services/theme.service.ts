@@ -0,0 +1,196 @@
+import { Injectable, computed, effect, inject, signal } from '@angular/core';
+import type { Category, CategoryId } from './data.service';
+import { BACKGROUND_COLOR_ENTRY, PersistenceService, THEME_ENTRY, ThemeSettings } from './persistence.service';
+
+export type ThemeId = 'standard' | 'dark' | 'high-contrast' | 'color-blind';
+
+/** Auswahl im Theme-Picker: ein Theme oder 'system' (hell/dunkel nach prefers-color-scheme) */
+export type ThemeChoice = ThemeId | 'system';
+
+interface ThemeColors {
+  color: string;
+  textColor: string;
+}
+
+export interface ThemeDefinition {
+  id: ThemeId;
+  /** Farben der Kategorien in ihrer Reihenfolge in der Datendatei; null = Farben aus den Daten */
+  palette: ThemeColors[] | null;
+  /** Symbol je Kategorie zusätzlich zur Farbe (Unterscheidung ohne Farbwahrnehmung) */
+  markers: boolean;
+  /** Fester Hintergrund; null = einstellbare Hintergrundfarbe */
+  background: string | null;
+}
+
+export const DEFAULT_BACKGROUND_COLOR = '#f9f6f1';
+
+const DARK_SCHEME_QUERY = '(prefers-color-scheme: dark)';
+
+// Symbole der Kategorien (Reihenfolge und Anzahl wie die Paletten)
+const CATEGORY_MARKERS = ['●', '▲', '■', '◆', '★', '✚', '▼', '◐', '✖'];
+
+export const THEMES: ThemeDefinition[] = [
+  { id: 'standard', palette: null, markers: false, background: null },
+  // Dunkle Flächen für abgedunkelte Räume; Kategorie-Farben aus den Daten
+  { id: 'dark', palette: null, markers: false, background: '#111827' },
+  {
+    // Dunkle, gesättigte Farben mit weißer Schrift (Kontrast mind. 7:1) auf weißem Hintergrund
+    id: 'high-contrast',
+    palette: [
+      { color: '#1a1a1a', textColor: '#ffffff' },
+      { color: '#00205b', textColor: '#ffffff' },
+      { color: '#004b8d', textColor: '#ffffff' },
+      { color: '#8f2f00', textColor: '#ffffff' },
+      { color: '#8b0040', textColor: '#ffffff' },
+      { color: '#2e5c00', textColor: '#ffffff' },
+      { color: '#6b4a00', textColor: '#ffffff' },
+      { color: '#3d2a78', textColor: '#ffffff' },
+      { color: '#005a7a', textColor: '#ffffff' }
+    ],
+    markers: true,
+    background: '#ffffff'
+  },
+  {
+    // Okabe-Ito-Palette: auch bei Rot-Grün- und Blau-Gelb-Schwäche unterscheidbar
+    id: 'color-blind',
+    palette: [
+      { color: '#000000', textColor: '#ffffff' },
+      { color: '#0072B2', textColor: '#ffffff' },
+      { color: '#E69F00', textColor: '#000000' },
+      { color: '#D55E00', textColor: '#000000' },
+      { color: '#CC79A7', textColor: '#000000' },
+      { color: '#009E73', textColor: '#000000' },
+      { color: '#F0E442', textColor: '#000000' },
+      { color: '#56B4E9', textColor: '#000000' },
+      { color: '#999999', textColor: '#000000' }
+    ],
+    markers: true,
+    background: null
+  }
+];
+
+export const THEME_CHOICES: ThemeChoice[] = ['system', ...THEMES.map(theme => theme.id)];
+
+/** Anzahl der Kategorien, die alle Paletten mit eigener Farbe darstellen (darüber wiederholen sich die Farben) */
+export const THEME_PALETTE_SIZE = Math.min(...THEMES.flatMap(theme => theme.palette ? [theme.palette.length] : []));
+
+/**
+ * Darstellungs-Theme der Anwendung: Kategorie-Farben, Symbole und Hintergrund.
+ * Das gewählte Theme setzt zusätzlich die Klasse theme--<id> am Body (UI-Farben in styles.css).
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class ThemeService {
+  private persistence = inject(PersistenceService);
+
+  private choice = signal<ThemeChoice>('standard');
+  private customBackground = signal<string>(DEFAULT_BACKGROUND_COLOR);
+  private prefersDark = signal<boolean>(false);
+
+  /** Angewendetes Theme ('system' aufgelöst) */
+  themeId = computed<ThemeId>(() => {
+    const choice = this.choice();
+    if (choice !== 'system') return choice;
+    return this.prefersDark() ? 'dark' : 'standard';
+  });
+
+  definition = computed(() => THEMES.find(theme => theme.id === this.themeId()) ?? THEMES[0]);
+
+  /** Hintergrund der Karte: Vorgabe des Themes oder die eingestellte Farbe */
+  background = computed(() => this.definition().background ?? this.customBackground());
+
+  constructor() {
+    this.loadFromStorage();
+    this.watchColorScheme();
+  }
+
+  /** Gewählte Option des Theme-Pickers */
+  get theme() {
+    return this.choice.asReadonly();
+  }
+
+  get backgroundColor() {
+    return this.customBackground.asReadonly();
+  }
+
+  // Effect: Theme-Klasse am Body setzen
+  private themeClassEffect = effect(() => {
+    const id = this.themeId();
+    for (const theme of THEMES) {
+      document.body.classList.toggle(`theme--${theme.id}`, theme.id === id);
+    }
+  });
+
+  setTheme(choice: ThemeChoice): void {
+    this.choice.set(choice);
+    this.saveToStorage();
+  }
+
+  setBackgroundColor(color: string): void {
+    this.customBackground.set(color);
+    this.saveToStorage();
+  }
+
+  resetBackgroundColor(): void {
+    this.setBackgroundColor(DEFAULT_BACKGROUND_COLOR);
+  }
+
+  /** Kategorien mit den Farben des Themes (Zuordnung über die Reihenfolge in der Datendatei) */
+  applyToCategories(categories: Category[]): Category[] {
+    const palette = this.definition().palette;
+    if (!palette) return categories;
+    return categories.map((category, index) => {
+      const colors = palette[index % palette.length];
+      return { ...category, color: colors.color, textColor: colors.textColor, accentColor: colors.color };
+    });
+  }
+
+  /**
+   * Symbol je Kategorie-ID; leer, wenn das Theme keine Symbole verwendet.
+   * Ab der zehnten Kategorie wiederholen sich Farben und Symbole, das Symbol erhält dann eine Nummer (●2, ▲2 …).
+   */
+  getCategoryMarkers(categories: Category[]): Record<CategoryId, string> {
+    if (!this.definition().markers) return {};
+    return Object.fromEntries(categories.map((category, index) => {
+      const round = Math.floor(index / CATEGORY_MARKERS.length);
+      const marker = CATEGORY_MARKERS[index % CATEGORY_MARKERS.length];
+      return [category.id, round > 0 ? `${marker}${round + 1}` : marker];
+    }));
+  }
+
+  private loadFromStorage(): void {
+    const settings = this.persistence.load(THEME_ENTRY) ?? this.migrateBackgroundColor();
+    if (!settings) return;
+
+    const choice = THEME_CHOICES.find(c => c === settings.theme);
+    if (choice) {
+      this.choice.set(choice);
+    }
+    if (settings.backgroundColor) {
+      this.customBackground.set(settings.backgroundColor);
+    }
+  }
+
+  // Hintergrundfarbe aus der Zeit vor den Themes übernehmen
+  private migrateBackgroundColor(): ThemeSettings | null {
+    const color = this.persistence.load(BACKGROUND_COLOR_ENTRY);
+    if (!color) return null;
+    const settings: ThemeSettings = { theme: 'standard', backgroundColor: color };
+    this.persistence.save(THEME_ENTRY, settings);
+    this.persistence.remove(BACKGROUND_COLOR_ENTRY);
+    return settings;
+  }
+
+  private saveToStorage(): void {
+    this.persistence.save(THEME_ENTRY, { theme: this.choice(), backgroundColor: this.customBackground() });
+  }
+
+  // Hell/Dunkel des Betriebssystems verfolgen (für 'system')
+  private watchColorScheme(): void {
+    if (typeof window.matchMedia !== 'function') return;
+    const query = window.matchMedia(DARK_SCHEME_QUERY);
+    this.prefersDark.set(query.matches);
+    query.addEventListener('change', event => this.prefersDark.set(event.matches));
+  }
+}
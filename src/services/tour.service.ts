@@ -0,0 +1,91 @@
+import { Injectable, inject, signal } from '@angular/core';
+import { PersistenceService, TOURS_ENTRY } from './persistence.service';
+import { Tour, TourFile, TourStep } from '../tools/tour-file';
+import { createId } from '../tools/create-id';
+
+/**
+ * Präsentationen (geführte Touren) im localStorage, alle Datenmodi in einem Eintrag.
+ * Die Liste steht als Signal bereit, neueste Änderung zuerst.
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class TourService {
+  private persistence = inject(PersistenceService);
+  private _tours = signal<Tour[]>([]);
+
+  get tours() {
+    return this._tours.asReadonly();
+  }
+
+  constructor() {
+    this._tours.set(sortTours(this.persistence.load(TOURS_ENTRY) ?? []));
+  }
+
+  create(name: string, dataMode: string, steps: TourStep[] = []): Tour {
+    const tour: Tour = { id: createId(), name, dataMode, steps, updatedAt: Date.now() };
+    this.put(tour);
+    return tour;
+  }
+
+  /** Übernimmt eine importierte Tour-Datei als neue Tour */
+  import(file: TourFile): Tour {
+    return this.create(file.name, file.dataMode, file.steps);
+  }
+
+  update(id: string, changes: Partial<Pick<Tour, 'name' | 'steps'>>): Tour | null {
+    const tour = this._tours().find(t => t.id === id);
+    if (!tour) return null;
+
+    const updated: Tour = { ...tour, ...changes, updatedAt: Date.now() };
+    this.put(updated);
+    return updated;
+  }
+
+  rename(id: string, name: string): Tour | null {
+    return this.update(id, { name });
+  }
+
+  addStep(id: string, step: TourStep): Tour | null {
+    const tour = this._tours().find(t => t.id === id);
+    return tour ? this.update(id, { steps: [...tour.steps, step] }) : null;
+  }
+
+  /** Ersetzt einen Schritt (z.B. mit der aktuellen Ansicht oder einem neuen Titel) */
+  replaceStep(id: string, index: number, step: TourStep): Tour | null {
+    const tour = this._tours().find(t => t.id === id);
+    if (!tour || !tour.steps[index]) return null;
+    return this.update(id, { steps: tour.steps.map((s, i) => i === index ? step : s) });
+  }
+
+  removeStep(id: string, index: number): Tour | null {
+    const tour = this._tours().find(t => t.id === id);
+    return tour ? this.update(id, { steps: tour.steps.filter((_, i) => i !== index) }) : null;
+  }
+
+  /** Verschiebt einen Schritt um offset Positionen (-1 = nach oben) */
+  moveStep(id: string, index: number, offset: number): Tour | null {
+    const tour = this._tours().find(t => t.id === id);
+    const target = index + offset;
+    if (!tour || !tour.steps[index] || target < 0 || target >= tour.steps.length) return null;
+
+    const steps = [...tour.steps];
+    const [step] = steps.splice(index, 1);
+    steps.splice(target, 0, step);
+    return this.update(id, { steps });
+  }
+
+  delete(id: string): void {
+    this._tours.set(this._tours().filter(t => t.id !== id));
+    this.persistence.save(TOURS_ENTRY, this._tours());
+  }
+
+  private put(tour: Tour): void {
+    this._tours.set(sortTours([...this._tours().filter(t => t.id !== tour.id), tour]));
+    this.persistence.save(TOURS_ENTRY, this._tours());
+  }
+}
+
+function sortTours(tours: Tour[]): Tour[] {
+  return [...tours].sort((a, b) => b.updatedAt - a.updatedAt);
+}
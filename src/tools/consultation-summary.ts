@@ -0,0 +1,191 @@
+/**
+ * Inhalt der Beratungszusammenfassung (PDF, siehe tools/pdf-document.ts).
+ *
+ * Aufbau: Kopf mit Mappe, Datenmodus und Datum, Bild der Karte, besprochene Themen
+ * (Filter, fokussierte und markierte Nodes, geöffnete Info), dann die Produkte (L3 und tiefer)
+ * mit ihren Tooltip-Texten, gruppiert nach Finanzhaus-Kategorie, und zuletzt die Notizen der Mappe.
+ *
+ * Produkte sind die Nodes ab L3 unterhalb der fokussierten bzw. markierten Themen und der geöffnete
+ * Info-Node. Ist ein Filter aktiv, zählen nur Produkte der gefilterten Kategorien; ohne Themen
+ * gelten dann alle Produkte dieser Kategorien.
+ */
+import type { Category, CategoryId, Node } from '../services/data.service';
+import type { PdfBlock, PdfRun } from './pdf-document';
+
+export interface SummaryInput {
+  root: Node;
+  categories: Category[];
+  activeCategories: CategoryId[];
+  focusedNodeIds: string[];
+  markedNodeIds: string[];
+  infoNodeId: string | null;
+  /** Kategorie, unter der ein Produkt aufgeführt wird (wie die Farbe in der Karte) */
+  primaryCategory: (node: Node) => CategoryId;
+  title: string;
+  /** Kopfzeile unter dem Titel, z.B. "Mappe Müller · Produkte · 18.10.2026" */
+  subtitle: string;
+  map: { jpeg: Uint8Array; width: number; height: number } | null;
+  notes: string;
+  t: (key: string) => string;
+}
+
+// Mindestebene der Produkte
+const PRODUCT_LEVEL = 3;
+// Einrückung der Tooltip-Texte unter dem Produktnamen (pt)
+const PRODUCT_INDENT = 12;
+// Höhe des Kartenbilds höchstens (pt), damit auf der ersten Seite noch Themen Platz haben
+const MAP_MAX_HEIGHT = 420;
+const PATH_SEPARATOR = ' › ';
+
+interface NodeEntry {
+  node: Node;
+  level: number;
+  /** Labels der Vorfahren ohne Root */
+  path: string[];
+}
+
+export function buildSummaryBlocks(input: SummaryInput): PdfBlock[] {
+  const { t } = input;
+  const entries = indexNodes(input.root);
+  const blocks: PdfBlock[] = [
+    { type: 'heading', level: 1, text: input.title },
+    { type: 'paragraph', runs: [{ text: input.subtitle }], color: '#64748b' },
+    { type: 'spacer', height: 8 }
+  ];
+
+  if (input.map) {
+    blocks.push({ type: 'image', ...input.map, maxHeight: MAP_MAX_HEIGHT });
+  }
+
+  // Besprochene Themen
+  blocks.push({ type: 'heading', level: 2, text: t('summary.topics') });
+  const categoryLabels = new Map(input.categories.map(c => [c.id, c.label]));
+  if (input.activeCategories.length > 0) {
+    const labels = input.activeCategories.map(id => categoryLabels.get(id) ?? id);
+    blocks.push({ type: 'paragraph', runs: [{ text: `${t('summary.filter')}: `, bold: true }, { text: labels.join(', ') }] });
+  }
+
+  const topicIds = unique([...input.focusedNodeIds, ...input.markedNodeIds]);
+  const topics = topicIds.map(id => entries.get(id)).filter((entry): entry is NodeEntry => entry !== undefined);
+  const info = input.infoNodeId ? entries.get(input.infoNodeId) : undefined;
+  const listed = info && !topicIds.includes(info.node.id) ? [...topics, info] : topics;
+  if (listed.length === 0 && input.activeCategories.length === 0) {
+    blocks.push({ type: 'paragraph', runs: [{ text: t('summary.noTopics') }] });
+  }
+  for (const entry of listed) {
+    blocks.push({ type: 'paragraph', runs: [{ text: '• ' }, ...pathRuns(entry)] });
+  }
+
+  // Produkte nach Kategorie
+  blocks.push({ type: 'heading', level: 2, text: t('summary.products') });
+  const products = collectProducts(input, entries, topics, info);
+  if (products.length === 0) {
+    blocks.push({ type: 'paragraph', runs: [{ text: t('summary.noProducts') }] });
+  }
+
+  const byCategory = new Map<CategoryId, NodeEntry[]>();
+  for (const product of products) {
+    const categoryId = input.primaryCategory(product.node);
+    byCategory.set(categoryId, [...(byCategory.get(categoryId) ?? []), product]);
+  }
+  const categoryOrder = [...input.categories.map(c => c.id), ...byCategory.keys()];
+  for (const categoryId of unique(categoryOrder)) {
+    const group = byCategory.get(categoryId);
+    if (!group) continue;
+
+    const category = input.categories.find(c => c.id === categoryId);
+    blocks.push({
+      type: 'heading',
+      level: 3,
+      text: category?.label ?? categoryId,
+      color: category ? category.accentColor ?? category.color : undefined
+    });
+    for (const product of group) {
+      blocks.push({ type: 'paragraph', runs: [{ text: product.node.label, bold: true }] });
+      if (product.path.length > 0) {
+        blocks.push({ type: 'paragraph', runs: [{ text: product.path.join(PATH_SEPARATOR) }], indent: PRODUCT_INDENT, size: 8, color: '#64748b' });
+      }
+      for (const paragraph of tooltipToParagraphs(product.node.tooltip ?? '')) {
+        blocks.push({ type: 'paragraph', runs: paragraph, indent: PRODUCT_INDENT });
+      }
+    }
+  }
+
+  // Notizen der Beratungsmappe
+  const notes = input.notes.trim();
+  if (notes) {
+    blocks.push({ type: 'heading', level: 2, text: t('summary.notes') });
+    for (const line of notes.split(/\n/)) {
+      blocks.push(line.trim() ? { type: 'paragraph', runs: [{ text: line }] } : { type: 'spacer', height: 6 });
+    }
+  }
+
+  return blocks;
+}
+
+/**
+ * Zerlegt einen Tooltip (HTML mit <b> und <br>) in Absätze aus Text-Läufen.
+ * Leere Zeilen (<br><br>) trennen Absätze, andere Tags werden entfernt.
+ */
+export function tooltipToParagraphs(html: string): PdfRun[][] {
+  const paragraphs: PdfRun[][] = [];
+  for (const line of html.split(/<br\s*\/?>/i)) {
+    const runs: PdfRun[] = [];
+    // Abwechselnd Text außerhalb und innerhalb von <b>…</b>
+    line.split(/<\/?(?:b|strong)>/i).forEach((part, i) => {
+      const text = decodeEntities(part.replace(/<[^>]*>/g, '')).replace(/\s+/g, ' ');
+      if (text.trim()) runs.push({ text, bold: i % 2 === 1 });
+    });
+    if (runs.length > 0) paragraphs.push(runs);
+  }
+  return paragraphs;
+}
+
+function collectProducts(input: SummaryInput, entries: Map<string, NodeEntry>, topics: NodeEntry[], info: NodeEntry | undefined): NodeEntry[] {
+  const filter = new Set(input.activeCategories);
+  const matchesFilter = (node: Node) => filter.size === 0 || node.categoryIds.some(id => filter.has(id));
+
+  const ids: string[] = [];
+  const addProducts = (node: Node, level: number) => {
+    if (level >= PRODUCT_LEVEL && matchesFilter(node)) ids.push(node.id);
+    node.children?.forEach(child => addProducts(child, level + 1));
+  };
+
+  if (topics.length > 0) {
+    topics.forEach(topic => addProducts(topic.node, topic.level));
+  } else if (filter.size > 0) {
+    addProducts(input.root, 0);
+  }
+  // Geöffnete Info gilt unabhängig vom Filter (sie wurde ausdrücklich angesehen)
+  if (info && info.level >= PRODUCT_LEVEL) ids.push(info.node.id);
+
+  return unique(ids).map(id => entries.get(id)!);
+}
+
+function indexNodes(root: Node): Map<string, NodeEntry> {
+  const entries = new Map<string, NodeEntry>();
+  const walk = (node: Node, level: number, path: string[]) => {
+    entries.set(node.id, { node, level, path });
+    node.children?.forEach(child => walk(child, level + 1, level === 0 ? [] : [...path, node.label]));
+  };
+  walk(root, 0, []);
+  return entries;
+}
+
+function pathRuns(entry: NodeEntry): PdfRun[] {
+  const prefix = entry.path.length > 0 ? `${entry.path.join(PATH_SEPARATOR)}${PATH_SEPARATOR}` : '';
+  return [{ text: prefix }, { text: entry.node.label, bold: true }];
+}
+
+function unique<T>(items: T[]): T[] {
+  return [...new Set(items)];
+}
+
+function decodeEntities(text: string): string {
+  return text
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&amp;/g, '&');
+}
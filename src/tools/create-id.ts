@@ -0,0 +1,7 @@
+/**
+ * Kurze, zeitlich sortierbare IDs für Beratungsmappen und Präsentationen.
+ * Ohne crypto.randomUUID(), das nur in sicheren Kontexten (HTTPS, localhost) verfügbar ist.
+ */
+export function createId(): string {
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+}
@@ -0,0 +1,171 @@
+/**
+ * Datenpakete: zur Laufzeit ladbare Finanzhaus-Daten (z.B. der Produktkatalog einer Bank).
+ *
+ * Ein Paket deklariert seine Datenmodi mit Anzeigename und Datendateien je Sprache:
+ *
+ *   {
+ *     "name": "Musterbank",
+ *     "modes": [
+ *       {
+ *         "id": "agrar",
+ *         "label": { "de": "Agrar", "en": "Agriculture" },
+ *         "data": { "de": { "root": …, "categories": …, "topics": … }, "en": { … } },
+ *         "defaultLayout": { "version": 1, "expandedNodes": […], "userPositions": { … }, … }
+ *       }
+ *     ]
+ *   }
+ *
+ * "defaultLayout" ist optional und hat das Format einer Layout-Datei (siehe tools/layout-file.ts).
+ *
+ * Eine einzelne Datendatei (root/categories/topics) wird ebenfalls akzeptiert
+ * und dem angegebenen Standard-Modus bzw. der Standard-Sprache zugeordnet.
+ */
+import { FinanzDataFile } from './finanzhaus-format';
+import { ValidationIssue, formatIssue, validateFinanzData } from './finanzhaus-validator';
+import { formatErrorList, isObject } from './json-guards';
+import { LayoutFile, parseLayoutFile } from './layout-file';
+
+export interface DataModeDefinition {
+  /** Eindeutige ID, wird u.a. für localStorage-Keys verwendet */
+  id: string;
+  /** Anzeigename je Sprache oder ein Name für alle Sprachen (Standard: ID bzw. Name des gebündelten Modus) */
+  label?: string | Record<string, string>;
+  /** Datendateien je Sprache */
+  data: Partial<Record<string, FinanzDataFile>>;
+  /** Ansicht ohne gespeicherten Zustand und nach "Ansicht zurücksetzen" (ohne: Force-Layout) */
+  defaultLayout?: LayoutFile;
+}
+
+export interface DataPack {
+  name?: string;
+  modes: DataModeDefinition[];
+}
+
+export interface DataPackDefaults {
+  /** Anzeigename, falls das Paket keinen eigenen Namen hat (z.B. Dateiname) */
+  name?: string;
+  mode: string;
+  language: string;
+}
+
+export interface DataPackParseResult {
+  pack: DataPack;
+  /** Warnungen der Schema-Prüfung (Fehler führen zum Abbruch) */
+  warnings: ValidationIssue[];
+}
+
+const MODE_ID_PATTERN = /^[a-zA-Z0-9_-]+$/;
+
+/**
+ * Liest ein Datenpaket ein und prüft jede enthaltene Datendatei mit validateFinanzData().
+ * Wirft einen Error mit den ersten Verstößen (inkl. JSON-Pfad), wenn das Paket ungültig ist.
+ */
+export function parseDataPack(json: unknown, defaults: DataPackDefaults): DataPackParseResult {
+  if (typeof json !== 'object' || json === null || Array.isArray(json)) {
+    throw new Error('Datenpaket muss ein JSON-Objekt sein');
+  }
+
+  const raw = json as Record<string, unknown>;
+  const isSingleFile = 'topics' in raw && !('modes' in raw);
+  const modes: unknown = isSingleFile
+    ? [{ id: defaults.mode, data: { [defaults.language]: raw } }]
+    : raw['modes'];
+
+  if (!Array.isArray(modes)) {
+    throw new Error('Datenpaket enthält weder "modes" (Array) noch eine Datendatei');
+  }
+
+  const errors: ValidationIssue[] = [];
+  const warnings: ValidationIssue[] = [];
+  const error = (path: string, message: string) => errors.push({ severity: 'error', path, message });
+  const pack: DataPack = {
+    name: typeof raw['name'] === 'string' ? raw['name'] : defaults.name,
+    modes: []
+  };
+
+  modes.forEach((mode: unknown, i) => {
+    const modePath = `$.modes[${i}]`;
+    if (!isObject(mode)) {
+      error(modePath, 'Datenmodus muss ein Objekt sein');
+      return;
+    }
+
+    const id = mode['id'];
+    if (typeof id !== 'string' || !MODE_ID_PATTERN.test(id)) {
+      error(`${modePath}.id`, 'ID muss aus Buchstaben, Ziffern, "_" oder "-" bestehen');
+      return;
+    }
+    if (pack.modes.some(m => m.id === id)) {
+      error(`${modePath}.id`, `Datenmodus "${id}" ist doppelt definiert`);
+      return;
+    }
+
+    const label = mode['label'];
+    const isLabelMap = isObject(label) && Object.values(label).every(value => typeof value === 'string');
+    if (label !== undefined && typeof label !== 'string' && !isLabelMap) {
+      error(`${modePath}.label`, 'Label muss ein String oder ein Objekt mit einem String je Sprache sein');
+    }
+
+    const data = mode['data'];
+    if (!isObject(data) || Object.keys(data).length === 0) {
+      error(`${modePath}.data`, 'Erwartet ein Objekt mit mindestens einer Datendatei je Sprache');
+      return;
+    }
+
+    for (const [language, file] of Object.entries(data)) {
+      const filePath = isSingleFile ? '$' : `${modePath}.data.${language}`;
+      for (const issue of validateFinanzData(file)) {
+        const path = filePath + issue.path.slice(1);
+        (issue.severity === 'error' ? errors : warnings).push({ ...issue, path });
+      }
+    }
+
+    let defaultLayout: LayoutFile | undefined;
+    if (mode['defaultLayout'] !== undefined) {
+      try {
+        defaultLayout = parseLayoutFile(mode['defaultLayout']);
+      } catch (e) {
+        error(`${modePath}.defaultLayout`, e instanceof Error ? e.message : String(e));
+      }
+    }
+
+    pack.modes.push({
+      id,
+      label: label as DataModeDefinition['label'],
+      data: data as DataModeDefinition['data'],
+      defaultLayout
+    });
+  });
+
+  if (errors.length > 0) {
+    throw new Error(formatErrorList('Datenpaket', errors.map(formatIssue)));
+  }
+  if (pack.modes.length === 0) {
+    throw new Error('Datenpaket enthält keine Datendateien');
+  }
+
+  return { pack, warnings };
+}
+
+/**
+ * Führt Datenmodi zusammen: Modi mit gleicher ID werden ersetzt (ohne eigenes Label
+ * bleibt das bisherige erhalten), neue Modi werden angehängt.
+ */
+export function mergeDataModes(base: DataModeDefinition[], overrides: DataModeDefinition[]): DataModeDefinition[] {
+  const merged = [...base];
+  for (const mode of overrides) {
+    const index = merged.findIndex(m => m.id === mode.id);
+    if (index === -1) {
+      merged.push(mode);
+    } else {
+      merged[index] = { ...mode, label: mode.label ?? merged[index].label };
+    }
+  }
+  return merged;
+}
+
+/** Anzeigename eines Datenmodus in der gewünschten Sprache (Fallback: erste Sprache, dann ID). */
+export function getDataModeLabel(mode: DataModeDefinition, language: string): string {
+  if (typeof mode.label === 'string') return mode.label;
+  return mode.label?.[language] ?? Object.values(mode.label ?? {})[0] ?? mode.id;
+}
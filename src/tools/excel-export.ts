@@ -0,0 +1,147 @@
+import * as XLSX from 'xlsx';
+import type { Node } from '../services/data.service';
+import { FinanzDataCategory } from './finanzhaus-format';
+import {
+  CATEGORIES_ACCENT_COLOR_COLUMN,
+  CATEGORIES_COLOR_COLUMN,
+  CATEGORIES_ICON_COLUMN,
+  CATEGORIES_ID_COLUMN,
+  CATEGORIES_LABEL_COLUMN,
+  CATEGORIES_POSITION_COLUMN,
+  CATEGORIES_ROW_COLUMN,
+  CATEGORIES_SHEET_NAME,
+  CATEGORIES_TEXT_COLOR_COLUMN,
+  CATEGORIES_TILES_COLUMN,
+  IMPORT_DESCRIPTION_COLUMN,
+  IMPORT_FINANZHAUS_COLUMN,
+  IMPORT_INCLUDE_COLUMN,
+  IMPORT_LEVEL_COLUMNS,
+  IMPORT_SHEET_NAME,
+  METADATA_FINANZHAUS_COLUMN,
+  METADATA_ICON_COLUMN,
+  METADATA_IMAGE_COLUMN,
+  METADATA_ID_COLUMN,
+  METADATA_SHEET_NAME,
+  METADATA_TOOLTIP_COLUMN
+} from './excel-import';
+
+/**
+ * Export des Node-Baums (DataService.getRootNode()) in das Format der Excel-Vorlage.
+ *
+ * - Blatt "ImportGraph": eine Zeile pro Endebene, Spalten wie in Importdatei.xlsx
+ * - Blatt "Knoten": eine Zeile pro Node mit ID, Finanzhaus-IDs, Icon, Bild und Tooltip
+ * - Blatt "Kategorien": ID, Label, Farben, Icon, Position und Kacheln im Finanzhaus aller Kategorien
+ *
+ * Die beiden Zusatzblätter werden vom Import ausgewertet, sodass ein erneuter
+ * Import IDs, Kategorie-Arrays und Tooltips unverändert wiederherstellt.
+ */
+
+export const EXCEL_MIME_TYPE = 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet';
+
+export interface ExcelExportResult {
+  workbook: XLSX.WorkBook;
+  warnings: string[];
+}
+
+export function buildExportWorkbook(root: Node, categories: FinanzDataCategory[]): ExcelExportResult {
+  const warnings: string[] = [];
+  const labelById = new Map(categories.map(c => [c.id, c.label]));
+  const maxLevel = IMPORT_LEVEL_COLUMNS.length - 1;
+
+  const importRows: string[][] = [];
+  const metadataRows: string[][] = [];
+
+  const levelCells = (path: string[]): string[] =>
+    IMPORT_LEVEL_COLUMNS.map((_, i) => path[i] ?? '');
+
+  const walk = (node: Node, path: string[]) => {
+    const level = path.length - 1;
+    if (level > maxLevel) {
+      warnings.push(`"${path.join(' › ')}" liegt unterhalb von ${IMPORT_LEVEL_COLUMNS[maxLevel]} und wurde nicht exportiert`);
+      return;
+    }
+
+    metadataRows.push([
+      ...levelCells(path),
+      node.id,
+      node.categoryIds.join(', '),
+      node.icon ?? '',
+      node.image ?? '',
+      node.tooltip ?? ''
+    ]);
+
+    if (node.children && node.children.length > 0) {
+      for (const child of node.children) {
+        walk(child, [...path, child.label]);
+      }
+      return;
+    }
+
+    // Endebene → Zeile im Import-Blatt (Root ohne Kinder hat keine Endebene)
+    if (level === 0) return;
+
+    const finanzhaus = node.categoryIds.map(id => {
+      const label = labelById.get(id);
+      if (!label) warnings.push(`"${path.join(' › ')}": unbekannte Kategorie "${id}"`);
+      return label ?? id;
+    });
+
+    importRows.push([
+      ...levelCells(path),
+      finanzhaus.join(', '),
+      node.tooltip ?? '',
+      'j'
+    ]);
+  };
+
+  walk(root, [root.label]);
+
+  const workbook = XLSX.utils.book_new();
+
+  const importSheet = XLSX.utils.aoa_to_sheet([
+    [...IMPORT_LEVEL_COLUMNS, IMPORT_FINANZHAUS_COLUMN, IMPORT_DESCRIPTION_COLUMN, IMPORT_INCLUDE_COLUMN],
+    ...importRows
+  ]);
+  importSheet['!cols'] = [22, 28, 42, 31, 31, 31, 60, 12].map(wch => ({ wch }));
+  XLSX.utils.book_append_sheet(workbook, importSheet, IMPORT_SHEET_NAME);
+
+  const metadataSheet = XLSX.utils.aoa_to_sheet([
+    [
+      ...IMPORT_LEVEL_COLUMNS, METADATA_ID_COLUMN, METADATA_FINANZHAUS_COLUMN, METADATA_ICON_COLUMN, METADATA_IMAGE_COLUMN,
+      METADATA_TOOLTIP_COLUMN
+    ],
+    ...metadataRows
+  ]);
+  metadataSheet['!cols'] = [22, 28, 42, 31, 31, 50, 30, 14, 40, 60].map(wch => ({ wch }));
+  XLSX.utils.book_append_sheet(workbook, metadataSheet, METADATA_SHEET_NAME);
+
+  const categoriesSheet = XLSX.utils.aoa_to_sheet([
+    [
+      CATEGORIES_ID_COLUMN, CATEGORIES_LABEL_COLUMN, CATEGORIES_COLOR_COLUMN, CATEGORIES_TEXT_COLOR_COLUMN,
+      CATEGORIES_ACCENT_COLOR_COLUMN, CATEGORIES_ICON_COLUMN, CATEGORIES_ROW_COLUMN, CATEGORIES_POSITION_COLUMN,
+      CATEGORIES_TILES_COLUMN
+    ],
+    ...categories.map(c => [
+      c.id,
+      c.label,
+      c.color,
+      c.textColor,
+      c.accentColor ?? '',
+      c.icon ?? '',
+      c.house ? String(c.house.row) : '',
+      c.house?.column !== undefined ? String(c.house.column) : '',
+      c.house?.tiles ? JSON.stringify(c.house.tiles) : ''
+    ])
+  ]);
+  categoriesSheet['!cols'] = [18, 32, 10, 10, 12, 40, 8, 8, 60].map(wch => ({ wch }));
+  XLSX.utils.book_append_sheet(workbook, categoriesSheet, CATEGORIES_SHEET_NAME);
+
+  return { workbook, warnings };
+}
+
+/** Erzeugt die XLSX-Datei als ArrayBuffer (Browser: Blob, Node: Buffer.from). */
+export function exportWorkbook(root: Node, categories: FinanzDataCategory[]): { data: ArrayBuffer; warnings: string[] } {
+  const { workbook, warnings } = buildExportWorkbook(root, categories);
+  const data = XLSX.write(workbook, { type: 'array', bookType: 'xlsx' }) as ArrayBuffer;
+  return { data, warnings };
+}
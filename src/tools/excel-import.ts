@@ -0,0 +1,557 @@
+import * as XLSX from 'xlsx';
+import {
+  FinanzDataCategory,
+  FinanzDataFile,
+  FinanzDataTopic,
+  buildNodeId,
+  collectIcons,
+  collectImages,
+  toCategoryList
+} from './finanzhaus-format';
+
+// Kategorien und Icons der Produkte-Daten als Vorgabe für den Import
+import produkteDataDe from '../data/finanzhaus-data-new.de.json';
+
+/**
+ * Import der MindMap-Struktur aus der Excel-Vorlage (Importdatei.xlsx).
+ *
+ * Jede Zeile beschreibt einen Pfad vom Root (Ebene 0) bis zur Endebene.
+ * Die Zuordnung zum Finanzhaus und die Beschreibung gelten für die letzte
+ * befüllte Ebene der Zeile. Übergeordnete Nodes erhalten die Kategorien
+ * ihrer Nachkommen.
+ *
+ * Vom Excel-Export geschriebene Zusatzblätter ("Knoten", "Kategorien") werden
+ * ausgewertet, falls vorhanden. Sie enthalten IDs, Kategorien übergeordneter
+ * Nodes, Icons und Tooltips, damit JSON → XLSX → JSON verlustfrei ist.
+ */
+
+export const IMPORT_LEVEL_COLUMNS = ['Ebene 0', 'Ebene 1', 'Ebene 2', 'Ebene 3', 'Ebene 4'];
+export const IMPORT_FINANZHAUS_COLUMN = 'Endebene zuordnung zum Finanzhaus';
+export const IMPORT_DESCRIPTION_COLUMN = 'Beschreibung letzte Ebene';
+export const IMPORT_INCLUDE_COLUMN = 'Berücksichtigen im Graphen';
+export const IMPORT_SHEET_NAME = 'ImportGraph';
+
+export const METADATA_SHEET_NAME = 'Knoten';
+export const METADATA_ID_COLUMN = 'ID';
+export const METADATA_FINANZHAUS_COLUMN = 'Finanzhaus-IDs';
+export const METADATA_ICON_COLUMN = 'Icon';
+export const METADATA_IMAGE_COLUMN = 'Bild';
+export const METADATA_TOOLTIP_COLUMN = 'Tooltip';
+
+export const CATEGORIES_SHEET_NAME = 'Kategorien';
+export const CATEGORIES_ID_COLUMN = 'ID';
+export const CATEGORIES_LABEL_COLUMN = 'Label';
+export const CATEGORIES_COLOR_COLUMN = 'Farbe';
+export const CATEGORIES_TEXT_COLOR_COLUMN = 'Textfarbe';
+export const CATEGORIES_ACCENT_COLOR_COLUMN = 'Akzentfarbe';
+export const CATEGORIES_ICON_COLUMN = 'Icon';
+export const CATEGORIES_ROW_COLUMN = 'Zeile';
+export const CATEGORIES_POSITION_COLUMN = 'Spalte';
+export const CATEGORIES_TILES_COLUMN = 'Kacheln';
+
+// Bezeichnungen aus der Excel-Vorlage, die nicht dem Kategorie-Label entsprechen
+const DEFAULT_CATEGORY_ALIASES: Record<string, string> = {
+  'Vorsorge und Mitarbeiterbindung': 'vorsorge',
+  'Vorsorge & Mitarbeiterbindung': 'vorsorge',
+  'Vermögen und EigenKapital': 'vermoegen',
+  'Gründung & Nachfolge': 'gruendung'
+};
+
+export interface ImportRow {
+  rowNumber: number;
+  levels: string[];
+  finanzhaus: string;
+  description: string;
+  include: string;
+}
+
+/** Zusatzinformationen zu einem Node aus dem Blatt "Knoten" */
+export interface NodeMetadata {
+  id?: string;
+  finanzhaus?: string[];
+  icon?: string;
+  image?: string;
+  tooltip?: string;
+}
+
+export interface ExcelImportOptions {
+  /**
+   * Kategorien der Zieldatei (Default: Kategorien der Produkte-Daten).
+   * Fehlende Felder werden aus der gleichnamigen Standard-Kategorie ergänzt.
+   */
+  categories?: Partial<FinanzDataCategory>[];
+  /** Zusätzliche Bezeichnungen → Kategorie-ID */
+  categoryAliases?: Record<string, string>;
+  /** Node-ID → Icon-Name (Default: Icons der Produkte-Daten) */
+  icons?: Record<string, string>;
+  /** Node-ID → Bild (Default: Bilder der Produkte-Daten) */
+  images?: Record<string, string>;
+  /** Name des Tabellenblatts (Default: "ImportGraph", sonst das erste Blatt) */
+  sheetName?: string;
+  /** Pfad (siehe pathKey) → Zusatzinformationen (Default: Blatt "Knoten", falls vorhanden) */
+  nodeMetadata?: Record<string, NodeMetadata>;
+}
+
+export interface ExcelImportResult {
+  data: FinanzDataFile;
+  warnings: string[];
+  skippedRows: number;
+}
+
+/**
+ * Liest eine Excel-Datei (ArrayBuffer im Browser, Buffer in Node) und erzeugt
+ * daraus die Datenstruktur für finanzhaus-data*.json.
+ */
+export function importWorkbook(data: ArrayBuffer | Uint8Array, options: ExcelImportOptions = {}): ExcelImportResult {
+  const workbook = XLSX.read(data, { type: 'array' });
+  const sheetName = options.sheetName
+    ?? (workbook.SheetNames.includes(IMPORT_SHEET_NAME) ? IMPORT_SHEET_NAME : workbook.SheetNames[0]);
+  const sheet = workbook.Sheets[sheetName];
+  if (!sheet) {
+    throw new Error(`Tabellenblatt "${sheetName}" nicht gefunden`);
+  }
+
+  const metadataSheet = workbook.Sheets[METADATA_SHEET_NAME];
+  const categoriesSheet = workbook.Sheets[CATEGORIES_SHEET_NAME];
+
+  return importRows(readSheetRows(sheet), {
+    ...options,
+    categories: options.categories ?? (categoriesSheet ? readCategoriesSheet(categoriesSheet) : undefined),
+    nodeMetadata: options.nodeMetadata ?? (metadataSheet ? readMetadataSheet(metadataSheet) : undefined)
+  });
+}
+
+/** Browser-Variante: Liest eine über einen File-Picker gewählte Datei. */
+export async function importFile(file: Blob, options: ExcelImportOptions = {}): Promise<ExcelImportResult> {
+  const buffer = await file.arrayBuffer();
+  return importWorkbook(buffer, options);
+}
+
+/**
+ * Wandelt ein Tabellenblatt in Import-Zeilen um.
+ * Spalten werden über die Überschriften der ersten Zeile zugeordnet, die Reihenfolge ist egal.
+ */
+export function readSheetRows(sheet: XLSX.WorkSheet): ImportRow[] {
+  const table = readTable(sheet);
+  if (!table) return [];
+
+  const levelIndices = IMPORT_LEVEL_COLUMNS.map(table.columnIndex);
+  if (levelIndices[0] < 0 || levelIndices[1] < 0) {
+    throw new Error(`Spalten "${IMPORT_LEVEL_COLUMNS[0]}" und "${IMPORT_LEVEL_COLUMNS[1]}" fehlen in der Kopfzeile`);
+  }
+  const finanzhausIndex = table.columnIndex(IMPORT_FINANZHAUS_COLUMN);
+  const descriptionIndex = table.columnIndex(IMPORT_DESCRIPTION_COLUMN);
+  const includeIndex = table.columnIndex(IMPORT_INCLUDE_COLUMN);
+
+  return table.rows.map(({ rowNumber, cells }) => ({
+    rowNumber,
+    levels: levelIndices.map(index => cellText(cells, index)),
+    finanzhaus: cellText(cells, finanzhausIndex),
+    description: cellText(cells, descriptionIndex, false),
+    include: cellText(cells, includeIndex)
+  }));
+}
+
+/** Liest das Blatt "Knoten" (Ebene 0…4, ID, Finanzhaus-IDs, Icon, Bild, Tooltip). */
+export function readMetadataSheet(sheet: XLSX.WorkSheet): Record<string, NodeMetadata> {
+  const metadata: Record<string, NodeMetadata> = {};
+  const table = readTable(sheet);
+  if (!table) return metadata;
+
+  const levelIndices = IMPORT_LEVEL_COLUMNS.map(table.columnIndex);
+  const idIndex = table.columnIndex(METADATA_ID_COLUMN);
+  const finanzhausIndex = table.columnIndex(METADATA_FINANZHAUS_COLUMN);
+  const iconIndex = table.columnIndex(METADATA_ICON_COLUMN);
+  const imageIndex = table.columnIndex(METADATA_IMAGE_COLUMN);
+  const tooltipIndex = table.columnIndex(METADATA_TOOLTIP_COLUMN);
+
+  for (const { cells } of table.rows) {
+    const levels = levelIndices.map(index => cellText(cells, index));
+    const depth = findLastFilledIndex(levels);
+    if (depth < 0) continue;
+
+    const entry: NodeMetadata = {};
+    const id = cellText(cells, idIndex);
+    const finanzhaus = splitCategoryLabels(cellText(cells, finanzhausIndex));
+    const icon = cellText(cells, iconIndex);
+    const tooltip = cellText(cells, tooltipIndex, false);
+    if (id) entry.id = id;
+    if (finanzhaus.length > 0) entry.finanzhaus = finanzhaus;
+    if (icon) entry.icon = icon;
+    const image = cellText(cells, imageIndex);
+    if (image) entry.image = image;
+    if (tooltip) entry.tooltip = tooltip;
+
+    metadata[pathKey(levels.slice(0, depth + 1))] = entry;
+  }
+
+  return metadata;
+}
+
+/**
+ * Liest das Blatt "Kategorien" (ID, Label, Farben, Icon, Position und Kacheln im Finanzhaus).
+ * Leere Zellen bleiben unbesetzt und werden beim Import aus den Standard-Kategorien ergänzt.
+ */
+export function readCategoriesSheet(sheet: XLSX.WorkSheet): Partial<FinanzDataCategory>[] {
+  const table = readTable(sheet);
+  if (!table) return [];
+
+  const idIndex = table.columnIndex(CATEGORIES_ID_COLUMN);
+  const labelIndex = table.columnIndex(CATEGORIES_LABEL_COLUMN);
+  const colorIndex = table.columnIndex(CATEGORIES_COLOR_COLUMN);
+  const textColorIndex = table.columnIndex(CATEGORIES_TEXT_COLOR_COLUMN);
+  const accentColorIndex = table.columnIndex(CATEGORIES_ACCENT_COLOR_COLUMN);
+  const iconIndex = table.columnIndex(CATEGORIES_ICON_COLUMN);
+  const rowIndex = table.columnIndex(CATEGORIES_ROW_COLUMN);
+  const columnIndex = table.columnIndex(CATEGORIES_POSITION_COLUMN);
+  const tilesIndex = table.columnIndex(CATEGORIES_TILES_COLUMN);
+
+  return table.rows
+    .map(({ cells, rowNumber }) => {
+      const category: Partial<FinanzDataCategory> = {
+        id: cellText(cells, idIndex),
+        label: cellText(cells, labelIndex)
+      };
+      const color = cellText(cells, colorIndex);
+      const textColor = cellText(cells, textColorIndex);
+      const accentColor = cellText(cells, accentColorIndex);
+      const icon = cellText(cells, iconIndex);
+      const row = cellText(cells, rowIndex);
+      const column = cellText(cells, columnIndex);
+      if (color) category.color = color;
+      if (textColor) category.textColor = textColor;
+      if (accentColor) category.accentColor = accentColor;
+      if (icon) category.icon = icon;
+      if (row) category.house = column ? { row: Number(row), column: Number(column) } : { row: Number(row) };
+
+      // Kacheln als JSON-Array (node, label, image), wie vom Export geschrieben
+      const tiles = cellText(cells, tilesIndex);
+      if (tiles && category.house) {
+        try {
+          category.house.tiles = JSON.parse(tiles);
+        } catch (e) {
+          const reason = e instanceof Error ? e.message : e;
+          throw new Error(`${CATEGORIES_SHEET_NAME}, Zeile ${rowNumber}: Spalte "${CATEGORIES_TILES_COLUMN}" enthält kein gültiges JSON (${reason})`);
+        }
+      }
+      return category;
+    })
+    .filter(category => category.id.length > 0);
+}
+
+/** Schlüssel eines Nodes in den Zusatzinformationen: Namen des Pfads ab Ebene 0 */
+export function pathKey(names: string[]): string {
+  return names.join(' › ');
+}
+
+/**
+ * Baut aus den Import-Zeilen den Baum auf.
+ * Leere Ebenen vor der letzten befüllten Ebene werden aus der Vorzeile übernommen
+ * (wie bei verbundenen Zellen in Excel).
+ */
+export function importRows(rows: ImportRow[], options: ExcelImportOptions = {}): ExcelImportResult {
+  const categories = completeCategories(options.categories);
+  const icons = options.icons ?? collectIcons(produkteDataDe as FinanzDataFile);
+  const images = options.images ?? collectImages(produkteDataDe as FinanzDataFile);
+  const resolveCategory = createCategoryResolver(categories, options.categoryAliases);
+  const metadata = options.nodeMetadata ?? {};
+
+  const warnings: string[] = [];
+  let skippedRows = 0;
+
+  let root: FinanzDataTopic | null = null;
+  const nodesByPath = new Map<string, FinanzDataTopic>();
+  const importedLeafPaths = new Set<string>();
+  let previousLevels: string[] = [];
+
+  for (const row of rows) {
+    const lastLevel = findLastFilledIndex(row.levels);
+    if (lastLevel < 0) continue; // Leerzeile
+
+    if (isExcluded(row.include)) {
+      skippedRows++;
+      continue;
+    }
+
+    // Fehlende übergeordnete Ebenen aus der Vorzeile ergänzen
+    const levels = row.levels.slice(0, lastLevel + 1).map((name, i) => name || previousLevels[i] || '');
+    const gap = levels.findIndex(name => !name);
+    if (gap >= 0) {
+      warnings.push(`Zeile ${row.rowNumber}: "${IMPORT_LEVEL_COLUMNS[gap]}" ist leer, Zeile übersprungen`);
+      skippedRows++;
+      continue;
+    }
+    previousLevels = levels;
+
+    if (lastLevel === 0) {
+      warnings.push(`Zeile ${row.rowNumber}: enthält nur "${IMPORT_LEVEL_COLUMNS[0]}", Zeile übersprungen`);
+      skippedRows++;
+      continue;
+    }
+
+    if (!root) {
+      root = { id: metadata[pathKey([levels[0]])]?.id ?? buildNodeId(0, levels[0]), name: levels[0], blaetter: [] };
+    } else if (root.name !== levels[0]) {
+      warnings.push(`Zeile ${row.rowNumber}: abweichender Root "${levels[0]}" (erwartet "${root.name}"), Zeile übersprungen`);
+      skippedRows++;
+      continue;
+    }
+
+    // Pfad anlegen bzw. vorhandene Nodes wiederverwenden
+    let parent = root;
+    for (let level = 1; level <= lastLevel; level++) {
+      const key = pathKey(levels.slice(0, level + 1));
+      let node = nodesByPath.get(key);
+
+      if (!node) {
+        const meta = metadata[key];
+        const id = meta?.id ?? buildNodeId(level, levels[level], levels[level - 1]);
+        node = { id, name: levels[level] };
+        const icon = meta?.icon ?? icons[id];
+        if (icon) node.icon = icon;
+        const image = meta?.image ?? images[id];
+        if (image) node.image = image;
+        if (meta?.tooltip) node.tooltip = meta.tooltip;
+        (parent.blaetter ??= []).push(node);
+        nodesByPath.set(key, node);
+      }
+
+      parent = node;
+    }
+
+    // Endebene: Finanzhaus-Zuordnung und Tooltip
+    const leaf = parent;
+    const leafKey = pathKey(levels);
+    if (importedLeafPaths.has(leafKey)) {
+      warnings.push(`Zeile ${row.rowNumber}: "${leafKey}" ist doppelt, Zeile übersprungen`);
+      skippedRows++;
+      continue;
+    }
+    importedLeafPaths.add(leafKey);
+
+    const categoryIds: string[] = [];
+    for (const label of splitCategoryLabels(row.finanzhaus)) {
+      const categoryId = resolveCategory(label);
+      if (categoryId) {
+        if (!categoryIds.includes(categoryId)) categoryIds.push(categoryId);
+      } else {
+        warnings.push(`Zeile ${row.rowNumber}: unbekannte Finanzhaus-Zuordnung "${label}"`);
+      }
+    }
+    if (categoryIds.length === 0 && metadata[leafKey]?.finanzhaus) {
+      categoryIds.push(...metadata[leafKey].finanzhaus!);
+    }
+    if (categoryIds.length === 0) {
+      warnings.push(`Zeile ${row.rowNumber}: keine Finanzhaus-Zuordnung für "${leaf.name}"`);
+    } else {
+      leaf.finanzhaus = categoryIds.length === 1 ? categoryIds[0] : categoryIds;
+    }
+
+    // Unveränderte Beschreibung aus dem Export: Tooltip exakt übernehmen
+    const exportedTooltip = metadata[leafKey]?.tooltip;
+    const tooltip = exportedTooltip && exportedTooltip.trim() === row.description.trim()
+      ? exportedTooltip
+      : descriptionToTooltip(leaf.name, row.description);
+    if (tooltip) {
+      leaf.tooltip = tooltip;
+    } else {
+      delete leaf.tooltip;
+    }
+  }
+
+  if (!root) {
+    throw new Error('Keine importierbaren Zeilen gefunden');
+  }
+
+  // Kategorien übergeordneter Nodes aus dem Export haben Vorrang vor der Vererbung
+  for (const [key, node] of nodesByPath) {
+    const finanzhaus = metadata[key]?.finanzhaus;
+    if (finanzhaus && node.blaetter && node.blaetter.length > 0) {
+      node.finanzhaus = finanzhaus.length === 1 ? finanzhaus[0] : finanzhaus;
+    }
+  }
+
+  const topics = root.blaetter ?? [];
+  topics.forEach(topic => inheritCategories(topic));
+
+  const rootMeta = metadata[pathKey([root.name])];
+  return {
+    data: {
+      root: {
+        id: root.id!,
+        name: root.name,
+        finanzhaus: rootMeta?.finanzhaus?.[0] ?? (categories.find(c => c.house?.row === 0) ?? categories[0])?.id,
+        icon: rootMeta?.icon ?? icons[root.id!] ?? 'network',
+        image: rootMeta?.image ?? images[root.id!]
+      },
+      categories: categories.map(orderCategoryKeys),
+      topics: topics.map(orderTopicKeys)
+    },
+    warnings,
+    skippedRows
+  };
+}
+
+/**
+ * Wandelt die Beschreibung der Endebene in Tooltip-HTML um.
+ * - Erste Zeile: Node-Name fett
+ * - Zeilen mit "-", "*" oder "•" am Anfang werden zu Aufzählungspunkten
+ * - Leerzeilen trennen Absätze
+ * Beschreibungen, die bereits HTML enthalten, werden unverändert übernommen.
+ */
+export function descriptionToTooltip(name: string, description: string): string | undefined {
+  const text = description.replace(/\r\n?/g, '\n').trim();
+  if (!text) return undefined;
+
+  if (/<\/?[a-z][^>]*>/i.test(text)) {
+    return text;
+  }
+
+  const paragraphs = text
+    .split(/\n\s*\n/)
+    .map(paragraph => paragraph
+      .split('\n')
+      .map(line => line.trim())
+      .filter(line => line.length > 0)
+      .map(line => {
+        const bullet = line.match(/^[-*•]\s*(.*)$/);
+        return bullet ? `• ${escapeHtml(bullet[1])}` : escapeHtml(line);
+      })
+      .join('<br>'))
+    .filter(paragraph => paragraph.length > 0);
+
+  return [`<b>${escapeHtml(name)}</b>`, ...paragraphs].join('<br><br>');
+}
+
+// --- Hilfsfunktionen ---
+
+interface SheetTable {
+  columnIndex: (name: string) => number;
+  rows: Array<{ rowNumber: number; cells: unknown[] }>;
+}
+
+// Liest ein Blatt als Tabelle mit Kopfzeile (Zeilennummern wie in Excel)
+function readTable(sheet: XLSX.WorkSheet): SheetTable | null {
+  const matrix = XLSX.utils.sheet_to_json<unknown[]>(sheet, { header: 1, blankrows: true, defval: '', raw: false });
+  if (matrix.length === 0) return null;
+
+  const firstRow = sheet['!ref'] ? XLSX.utils.decode_range(sheet['!ref']).s.r + 1 : 1;
+  const headers = matrix[0].map(cell => String(cell).trim());
+
+  return {
+    columnIndex: (name: string) => headers.indexOf(name),
+    rows: matrix.slice(1).map((cells, i) => ({ rowNumber: firstRow + i + 1, cells }))
+  };
+}
+
+function cellText(cells: unknown[], index: number, trim = true): string {
+  if (index < 0 || cells[index] === undefined || cells[index] === null) return '';
+  const text = String(cells[index]);
+  return trim ? text.trim() : text;
+}
+
+function findLastFilledIndex(levels: string[]): number {
+  for (let i = levels.length - 1; i >= 0; i--) {
+    if (levels[i]) return i;
+  }
+  return -1;
+}
+
+// "n"/"nein" schließt die Zeile aus, leere Zellen zählen als "j"
+function isExcluded(flag: string): boolean {
+  const value = flag.toLowerCase();
+  return value === 'n' || value === 'nein' || value === 'no';
+}
+
+function splitCategoryLabels(value: string): string[] {
+  return value.split(/[,;\n]/).map(label => label.trim()).filter(label => label.length > 0);
+}
+
+function normalizeLabel(label: string): string {
+  return label
+    .toLowerCase()
+    .replace(/<br\s*\/?>/g, ' ')
+    .replace(/&/g, ' und ')
+    .replace(/ä/g, 'ae')
+    .replace(/ö/g, 'oe')
+    .replace(/ü/g, 'ue')
+    .replace(/ß/g, 'ss')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+// Ordnet Bezeichnungen (Label, ID oder Alias) einer Kategorie-ID zu
+function createCategoryResolver(
+  categories: FinanzDataCategory[],
+  aliases: Record<string, string> = {}
+): (label: string) => string | null {
+  const lookup = new Map<string, string>();
+  const add = (label: string, id: string) => lookup.set(normalizeLabel(label), id);
+
+  for (const [label, id] of Object.entries(DEFAULT_CATEGORY_ALIASES)) add(label, id);
+  for (const category of categories) {
+    add(category.id, category.id);
+    add(category.label, category.id);
+  }
+  for (const [label, id] of Object.entries(aliases)) add(label, id);
+
+  return (label: string) => lookup.get(normalizeLabel(label)) ?? null;
+}
+
+// Übergeordnete Nodes erhalten die Kategorien ihrer Nachkommen (in Reihenfolge des Auftretens)
+function inheritCategories(topic: FinanzDataTopic): string[] {
+  if (!topic.blaetter || topic.blaetter.length === 0) {
+    return toCategoryList(topic.finanzhaus);
+  }
+
+  const collected: string[] = [];
+  for (const child of topic.blaetter) {
+    for (const id of inheritCategories(child)) {
+      if (!collected.includes(id)) collected.push(id);
+    }
+  }
+
+  if (topic.finanzhaus === undefined && collected.length > 0) {
+    topic.finanzhaus = collected.length === 1 ? collected[0] : collected;
+  }
+  return collected;
+}
+
+// Ergänzt unvollständige Kategorien (z.B. aus Excel-Dateien ohne Farbspalten) um die Standardwerte
+function completeCategories(categories?: Partial<FinanzDataCategory>[]): FinanzDataCategory[] {
+  const defaults = produkteDataDe.categories as FinanzDataCategory[];
+  if (!categories) return defaults;
+  return categories.map(category => {
+    const fallback = defaults.find(c => c.id === category.id);
+    return { ...fallback, ...category } as FinanzDataCategory;
+  });
+}
+
+// Gleiche Feldreihenfolge wie in den bestehenden JSON-Dateien
+function orderCategoryKeys(category: FinanzDataCategory): FinanzDataCategory {
+  const ordered: FinanzDataCategory = {
+    id: category.id,
+    label: category.label,
+    color: category.color,
+    textColor: category.textColor
+  };
+  if (category.accentColor) ordered.accentColor = category.accentColor;
+  if (category.icon) ordered.icon = category.icon;
+  if (category.house) ordered.house = category.house;
+  return ordered;
+}
+
+// Gleiche Feldreihenfolge wie in den bestehenden JSON-Dateien
+function orderTopicKeys(topic: FinanzDataTopic): FinanzDataTopic {
+  const ordered: FinanzDataTopic = { id: topic.id, name: topic.name };
+  if (topic.finanzhaus !== undefined) ordered.finanzhaus = topic.finanzhaus;
+  if (topic.icon) ordered.icon = topic.icon;
+  if (topic.image) ordered.image = topic.image;
+  if (topic.tooltip) ordered.tooltip = topic.tooltip;
+  if (topic.blaetter && topic.blaetter.length > 0) ordered.blaetter = topic.blaetter.map(orderTopicKeys);
+  return ordered;
+}
+
+function escapeHtml(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
@@ -0,0 +1,207 @@
+/**
+ * Sprachübergreifender Abgleich zweier Datendateien (z.B. DE ↔ EN).
+ *
+ * Nodes werden über ihre ID zugeordnet. Nodes ohne explizite ID (Beratung-Daten)
+ * erhalten ihre ID aus dem Namen und unterscheiden sich daher je Sprache –
+ * sie werden über ihre Position unter dem bereits zugeordneten Parent abgeglichen.
+ */
+import { FinanzDataCategory, FinanzDataFile, FinanzDataTopic, toCategoryList } from './finanzhaus-format';
+
+export type ConsistencyIssueKind = 'missing' | 'structure' | 'categories' | 'tooltip';
+
+export interface ConsistencyIssue {
+  kind: ConsistencyIssueKind;
+  /** ID bzw. Positions-Schlüssel des Nodes */
+  key: string;
+  /** JSON-Pfad in der Datei, in der der Verstoß auftritt */
+  path: string;
+  /** Sprache der Datei, auf die sich path bezieht */
+  language: string;
+  message: string;
+}
+
+interface NodeEntry {
+  key: string;
+  parentKey: string | null;
+  index: number;
+  path: string;
+  namePath: string;
+  topic: FinanzDataTopic;
+}
+
+// Häufige deutsche Wörter, an denen unübersetzte Tooltips in der EN-Datei erkannt werden
+const GERMAN_MARKERS = [
+  'und', 'oder', 'der', 'die', 'das', 'für', 'mit', 'von', 'ist', 'sind', 'nicht', 'ein', 'eine',
+  'zur', 'zum', 'bei', 'auf', 'ihre', 'ihr', 'sie', 'wir', 'auch', 'werden', 'kann', 'können'
+];
+const GERMAN_MARKER_THRESHOLD = 3;
+
+const CATEGORY_SHARED_FIELDS = ['color', 'textColor', 'accentColor', 'icon', 'house'] as const;
+
+/**
+ * Vergleicht eine Referenzdatei (Standard: DE) mit ihrer Übersetzung (Standard: EN).
+ * Meldet fehlende Nodes, abweichende Struktur, abweichende Kategorien sowie
+ * fehlende oder unübersetzte Tooltips.
+ */
+export function compareLanguages(
+  reference: FinanzDataFile,
+  translation: FinanzDataFile,
+  referenceLanguage = 'de',
+  translationLanguage = 'en'
+): ConsistencyIssue[] {
+  const issues: ConsistencyIssue[] = [];
+  const referenceNodes = collectNodes(reference);
+  const translationNodes = collectNodes(translation);
+
+  const push = (kind: ConsistencyIssueKind, entry: NodeEntry, language: string, message: string) =>
+    issues.push({ kind, key: entry.key, path: entry.path, language, message });
+
+  if (reference.root.id !== translation.root.id) {
+    issues.push({
+      kind: 'structure',
+      key: reference.root.id,
+      path: '$.root.id',
+      language: translationLanguage,
+      message: `Root-ID "${translation.root.id}" weicht von "${reference.root.id}" (${referenceLanguage}) ab`
+    });
+  }
+  if (reference.root.finanzhaus !== translation.root.finanzhaus) {
+    issues.push({
+      kind: 'categories',
+      key: reference.root.id,
+      path: '$.root.finanzhaus',
+      language: translationLanguage,
+      message: `Root-Kategorie "${translation.root.finanzhaus}" weicht von "${reference.root.finanzhaus}" (${referenceLanguage}) ab`
+    });
+  }
+
+  const referenceCategories = reference.categories.map(c => c.id).sort().join(', ');
+  const translationCategories = translation.categories.map(c => c.id).sort().join(', ');
+  if (referenceCategories !== translationCategories) {
+    issues.push({
+      kind: 'categories',
+      key: 'categories',
+      path: '$.categories',
+      language: translationLanguage,
+      message: `Kategorien [${translationCategories}] weichen von [${referenceCategories}] (${referenceLanguage}) ab`
+    });
+  }
+
+  // Farben, Icon und Position gelten sprachübergreifend, nur Labels (auch der Kacheln) werden übersetzt
+  translation.categories.forEach((category, i) => {
+    const referenceCategory = reference.categories.find(c => c.id === category.id);
+    if (!referenceCategory) return;
+    for (const field of CATEGORY_SHARED_FIELDS) {
+      if (sharedValue(category, field) !== sharedValue(referenceCategory, field)) {
+        issues.push({
+          kind: 'categories',
+          key: category.id,
+          path: `$.categories[${i}].${field}`,
+          language: translationLanguage,
+          message: `Kategorie "${category.id}": ${field} weicht von ${referenceLanguage} ab`
+        });
+      }
+    }
+  });
+
+  for (const [key, entry] of referenceNodes) {
+    const other = translationNodes.get(key);
+    if (!other) {
+      // Fehlende Teilbäume nur einmal an ihrer Wurzel melden
+      if (entry.parentKey === null || translationNodes.has(entry.parentKey)) {
+        push('missing', entry, referenceLanguage, `"${entry.namePath}" fehlt in ${translationLanguage}`);
+      }
+      continue;
+    }
+
+    if (entry.parentKey !== other.parentKey) {
+      push('structure', other, translationLanguage,
+        `"${other.namePath}" hängt unter "${other.parentKey ?? 'Root'}", in ${referenceLanguage} unter "${entry.parentKey ?? 'Root'}"`);
+    } else if (entry.index !== other.index) {
+      push('structure', other, translationLanguage,
+        `"${other.namePath}" steht an Position ${other.index + 1}, in ${referenceLanguage} an Position ${entry.index + 1}`);
+    }
+
+    const referenceIds = toCategoryList(entry.topic.finanzhaus);
+    const translationIds = toCategoryList(other.topic.finanzhaus);
+    if ([...referenceIds].sort().join(', ') !== [...translationIds].sort().join(', ')) {
+      push('categories', other, translationLanguage,
+        `"${other.namePath}": Kategorien [${translationIds.join(', ')}], in ${referenceLanguage} [${referenceIds.join(', ')}]`);
+    }
+
+    const tooltipIssue = checkTooltipTranslation(entry.topic.tooltip, other.topic.tooltip, referenceLanguage);
+    if (tooltipIssue) {
+      push('tooltip', other, translationLanguage, `"${other.namePath}": ${tooltipIssue}`);
+    }
+  }
+
+  for (const [key, entry] of translationNodes) {
+    if (!referenceNodes.has(key) && (entry.parentKey === null || referenceNodes.has(entry.parentKey))) {
+      push('missing', entry, translationLanguage, `"${entry.namePath}" fehlt in ${referenceLanguage}`);
+    }
+  }
+
+  return issues;
+}
+
+/** Zählt die Verstöße je Art, z.B. für eine Zusammenfassung. */
+export function countIssuesByKind(issues: ConsistencyIssue[]): Record<ConsistencyIssueKind, number> {
+  const counts: Record<ConsistencyIssueKind, number> = { missing: 0, structure: 0, categories: 0, tooltip: 0 };
+  for (const issue of issues) {
+    counts[issue.kind]++;
+  }
+  return counts;
+}
+
+function sharedValue(category: FinanzDataCategory, field: typeof CATEGORY_SHARED_FIELDS[number]): string {
+  if (field !== 'house' || !category.house) return JSON.stringify(category[field]);
+  const { tiles, ...position } = category.house;
+  return JSON.stringify({ ...position, tiles: tiles?.map(({ node, image }) => ({ node, image })) });
+}
+
+function checkTooltipTranslation(reference: string | undefined, translation: string | undefined, referenceLanguage: string): string | null {
+  const referenceText = tooltipText(reference);
+  const translationText = tooltipText(translation);
+
+  if (!referenceText) {
+    return null;
+  }
+  if (!translationText) {
+    return `Tooltip fehlt (in ${referenceLanguage} vorhanden)`;
+  }
+  if (referenceText === translationText) {
+    return `Tooltip ist identisch mit ${referenceLanguage}`;
+  }
+  if (referenceLanguage === 'de' && looksGerman(translationText)) {
+    return 'Tooltip ist vermutlich noch deutsch';
+  }
+  return null;
+}
+
+function looksGerman(text: string): boolean {
+  if (/[äöüß]/i.test(text)) {
+    return true;
+  }
+  const words = text.toLowerCase().split(/[^a-zäöüß]+/);
+  return words.filter(word => GERMAN_MARKERS.includes(word)).length >= GERMAN_MARKER_THRESHOLD;
+}
+
+// Tooltip ohne Tags und mit normalisierten Leerzeichen
+function tooltipText(html: string | undefined): string {
+  return (html ?? '').replace(/<[^>]*>/g, ' ').replace(/\s+/g, ' ').trim();
+}
+
+function collectNodes(data: FinanzDataFile): Map<string, NodeEntry> {
+  const nodes = new Map<string, NodeEntry>();
+
+  const walk = (topic: FinanzDataTopic, parentKey: string | null, index: number, path: string, namePath: string) => {
+    const key = topic.id ?? `${parentKey ?? data.root.id}[${index}]`;
+    nodes.set(key, { key, parentKey, index, path, namePath, topic });
+    topic.blaetter?.forEach((child, i) =>
+      walk(child, key, i, `${path}.blaetter[${i}]`, `${namePath} › ${child.name}`)
+    );
+  };
+  data.topics.forEach((topic, i) => walk(topic, null, i, `$.topics[${i}]`, topic.name));
+
+  return nodes;
+}
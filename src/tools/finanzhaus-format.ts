@@ -0,0 +1,198 @@
+/**
+ * Dateiformat der Finanzhaus-Daten (finanzhaus-data*.json).
+ *
+ * Diese Typen beschreiben die JSON-Struktur, die mapNode() in den Node-Baum umwandelt.
+ * Das Modul ist frei von Angular-Abhängigkeiten und wird sowohl im Browser
+ * als auch in den Node-Skripten unter /scripts verwendet.
+ */
+import type { Node } from '../services/data.service';
+
+/** Tiefste erlaubte Ebene (Root = 0), entspricht "Ebene 4" der Excel-Vorlage. */
+export const MAX_NODE_LEVEL = 4;
+
+/** Ebenen, deren Nodes ein Icon tragen (Root und L1, siehe getNodeIconPath). */
+export const ICON_LEVELS: readonly number[] = [0, 1];
+
+export interface FinanzDataRoot {
+  id: string;
+  name: string;
+  finanzhaus: string;
+  icon?: string;
+  /** Piktogramm (Pfad relativ zur Anwendung, z.B. "./assets/00_Ihr Unternehmen.png") */
+  image?: string;
+}
+
+export interface FinanzDataCategory {
+  id: string;
+  label: string;
+  /** Kategoriefarbe (Flächen im Finanzhaus, Filter-Chips, Info-Panel) */
+  color: string;
+  /** Schriftfarbe auf der Kategoriefarbe */
+  textColor: string;
+  /** Farbe für Schrift und Rahmen auf hellem Hintergrund (Standard: color) */
+  accentColor?: string;
+  /** SVG-Pfad (24×24, Outline) für Nodes ohne Bild */
+  icon?: string;
+  /** Position im Finanzhaus; ohne Angabe erscheint die Kategorie nicht in der Legende */
+  house?: FinanzhausPosition;
+}
+
+/**
+ * Position einer Kategorie im Finanzhaus.
+ * Zeile 0 ist das Dach (übergreifende Kategorie), jede weitere Zeile eine Etage.
+ * Mehrere Kategorien in einer Zeile werden als Säulen nebeneinander dargestellt (sortiert nach column).
+ */
+export interface FinanzhausPosition {
+  row: number;
+  column?: number;
+  /** Kacheln mit Piktogramm, die im Abschnitt bzw. in der Säule angezeigt werden */
+  tiles?: FinanzhausTile[];
+}
+
+/**
+ * Kachel im Finanzhaus, die einen L2-Node filtert.
+ * Fehlt der Node in den aktuellen Daten, filtert ein Klick nach der Kategorie.
+ */
+export interface FinanzhausTile {
+  node: string;
+  label: string;
+  image: string;
+}
+
+export interface FinanzDataTopic {
+  id?: string;
+  name: string;
+  finanzhaus?: string | string[];
+  icon?: string;
+  /** Piktogramm, wird an Nachkommen ohne eigenes Bild vererbt */
+  image?: string;
+  tooltip?: string;
+  blaetter?: FinanzDataTopic[];
+}
+
+export interface FinanzDataFile {
+  root: FinanzDataRoot;
+  categories: FinanzDataCategory[];
+  topics: FinanzDataTopic[];
+}
+
+/**
+ * Wandelt einen Anzeigenamen in einen ID-Bestandteil um.
+ * Umlaute werden transkribiert, alle anderen Sonderzeichen zu "_" zusammengefasst.
+ * Beispiel: "Vermögen/ EK verwenden" → "vermoegen_ek_verwenden"
+ */
+export function slugify(name: string): string {
+  return name
+    .toLowerCase()
+    .replace(/ä/g, 'ae')
+    .replace(/ö/g, 'oe')
+    .replace(/ü/g, 'ue')
+    .replace(/ß/g, 'ss')
+    .replace(/[^a-z0-9]+/g, '_')
+    .replace(/^_+|_+$/g, '');
+}
+
+/**
+ * Erzeugt die Node-ID nach dem Schema der Produkte-Daten:
+ * - L0: "<name>"                      (z.B. ihr_unternehmen)
+ * - L1: "l1_<name>"                   (z.B. l1_zahlungsverkehr)
+ * - L2+: "l<n>_<parentName>_<name>"   (z.B. l3_zahlungsverkehr_im_sepa_raum_abwickeln_geschaeftskonto)
+ */
+export function buildNodeId(level: number, name: string, parentName?: string): string {
+  if (level === 0) {
+    return slugify(name);
+  }
+  if (level === 1 || !parentName) {
+    return `l${level}_${slugify(name)}`;
+  }
+  return `l${level}_${slugify(parentName)}_${slugify(name)}`;
+}
+
+/**
+ * Sammelt alle Icons (Node-ID → Icon-Name) einer Datendatei.
+ * Wird vom Import genutzt, um Icons aus einer bestehenden Datei zu übernehmen,
+ * da die Excel-Vorlage keine Icon-Spalte hat.
+ */
+export function collectIcons(data: FinanzDataFile): Record<string, string> {
+  const icons: Record<string, string> = {};
+  if (data.root.icon) {
+    icons[data.root.id] = data.root.icon;
+  }
+
+  const walk = (topic: FinanzDataTopic) => {
+    if (topic.id && topic.icon) {
+      icons[topic.id] = topic.icon;
+    }
+    topic.blaetter?.forEach(walk);
+  };
+  data.topics.forEach(walk);
+
+  return icons;
+}
+
+/** Node-ID → Piktogramm aller Nodes mit eigenem Bild (inkl. Root). */
+export function collectImages(data: FinanzDataFile): Record<string, string> {
+  const images: Record<string, string> = {};
+  if (data.root.image) {
+    images[data.root.id] = data.root.image;
+  }
+
+  const walk = (topic: FinanzDataTopic, parentId: string) => {
+    const id = topic.id || generateId(topic.name, parentId);
+    if (topic.image) {
+      images[id] = topic.image;
+    }
+    topic.blaetter?.forEach(child => walk(child, id));
+  };
+  data.topics.forEach(topic => walk(topic, data.root.id));
+
+  return images;
+}
+
+/** Normalisiert das finanzhaus-Feld (String oder Array) zu einem Array. */
+export function toCategoryList(finanzhaus: string | string[] | undefined): string[] {
+  if (Array.isArray(finanzhaus)) return finanzhaus;
+  return finanzhaus ? [finanzhaus] : [];
+}
+
+// --- Umwandlung in den Node-Baum (wie vom DataService geliefert) ---
+
+export function mapRootNode(data: FinanzDataFile): Node {
+  const rootData = data.root;
+  return {
+    id: rootData.id,
+    label: rootData.name,
+    categoryIds: [rootData.finanzhaus],
+    icon: rootData.icon,
+    image: rootData.image,
+    children: data.topics.map((topic) => mapNode(topic, rootData.id))
+  };
+}
+
+// Kategorien werden unverändert übernommen, Verstöße meldet validateFinanzData()
+export function mapNode(data: FinanzDataTopic, parentId?: string): Node {
+  const categoryIds = toCategoryList(data.finanzhaus);
+  const nodeId = data.id || generateId(data.name, parentId);
+
+  return {
+    id: nodeId,
+    label: data.name,
+    categoryIds,
+    icon: data.icon,
+    image: data.image,
+    tooltip: data.tooltip,
+    children: data.blaetter
+      ? data.blaetter.map((child) => mapNode(child, nodeId))
+      : undefined,
+  };
+}
+
+// IDs für Nodes ohne explizite ID (Beratung-Daten)
+export function generateId(name: string, parentId?: string): string {
+  // Deterministisch: basiert auf Name und Parent-Pfad, kein Random
+  const baseName = name.toLowerCase().replace(/[^a-z0-9]/g, '_');
+  if (parentId) {
+    return `${parentId}_${baseName}`;
+  }
+  return baseName;
+}
@@ -0,0 +1,388 @@
+/**
+ * Schema-Prüfung der Finanzhaus-Datendateien (finanzhaus-data*.json).
+ *
+ * Wird zur Laufzeit vom DataService und im Skript scripts/validate-data.ts verwendet.
+ * Jeder Verstoß wird mit dem JSON-Pfad gemeldet, z.B. "$.topics[2].blaetter[0].finanzhaus".
+ */
+import {
+  FinanzDataFile,
+  ICON_LEVELS,
+  MAX_NODE_LEVEL,
+  generateId
+} from './finanzhaus-format';
+import { isObject } from './json-guards';
+
+export type ValidationSeverity = 'error' | 'warning';
+
+export interface ValidationIssue {
+  severity: ValidationSeverity;
+  path: string;
+  message: string;
+}
+
+export interface ValidationOptions {
+  /** Erlaubte Kategorie-IDs (Standard: die unter "categories" definierten IDs) */
+  categoryIds?: readonly string[];
+  /** Tiefste erlaubte Ebene, Root = 0 (Standard: MAX_NODE_LEVEL) */
+  maxLevel?: number;
+  /** Ebenen, auf denen ein Icon gesetzt sein darf (Standard: ICON_LEVELS) */
+  iconLevels?: readonly number[];
+  /** Prüft, ob ein Bild (image, Kachel-Bild) vorhanden ist; fehlende Bilder werden als Warnung gemeldet */
+  imageExists?: (image: string) => boolean;
+  /** Anzahl der Farben der Theme-Paletten; mehr Kategorien werden als Warnung gemeldet */
+  paletteSize?: number;
+}
+
+const ROOT_KEYS = ['id', 'name', 'finanzhaus', 'icon', 'image'];
+const CATEGORY_KEYS = ['id', 'label', 'color', 'textColor', 'accentColor', 'icon', 'house'];
+const HOUSE_KEYS = ['row', 'column', 'tiles'];
+const TILE_KEYS = ['node', 'label', 'image'];
+
+// Kategorie-IDs werden in CSS-Klassen und localStorage verwendet
+const CATEGORY_ID_PATTERN = /^[a-zA-Z0-9_-]+$/;
+// Hex-Farben sowie rgb()/hsl() ohne weitere CSS-Ausdrücke
+const COLOR_PATTERN = /^(#[0-9a-fA-F]{3,8}|(rgb|hsl)a?\([0-9.,%\s/]+\))$/;
+// SVG-Pfaddaten (Befehle und Zahlen)
+const SVG_PATH_PATTERN = /^[MmLlHhVvCcSsQqTtAaZz0-9eE.,\s+-]+$/;
+const TOPIC_KEYS = ['id', 'name', 'finanzhaus', 'icon', 'image', 'tooltip', 'blaetter'];
+
+// Tags, die im Info-Panel per [innerHTML] dargestellt werden dürfen
+const TOOLTIP_TAGS = new Set(['b', 'strong', 'i', 'em', 'u', 'br', 'p', 'ul', 'ol', 'li', 'span', 'small', 'sub', 'sup', 'a']);
+const VOID_TAGS = new Set(['br']);
+
+/** Prüft eine Datendatei und liefert alle Verstöße (leeres Array = gültig). */
+export function validateFinanzData(data: unknown, options: ValidationOptions = {}): ValidationIssue[] {
+  const maxLevel = options.maxLevel ?? MAX_NODE_LEVEL;
+  const iconLevels = new Set(options.iconLevels ?? ICON_LEVELS);
+
+  const issues: ValidationIssue[] = [];
+  const error = (path: string, message: string) => issues.push({ severity: 'error', path, message });
+  const warning = (path: string, message: string) => issues.push({ severity: 'warning', path, message });
+
+  if (!isObject(data)) {
+    error('$', 'Datei muss ein Objekt mit root, categories und topics sein');
+    return issues;
+  }
+
+  // Erste Fundstelle je Node-ID, um Duplikate mit beiden Pfaden zu melden
+  const idPaths = new Map<string, string>();
+  const registerId = (id: string, path: string) => {
+    const existing = idPaths.get(id);
+    if (existing) {
+      error(path, `ID "${id}" ist nicht eindeutig (bereits verwendet in ${existing})`);
+    } else {
+      idPaths.set(id, path);
+    }
+  };
+
+  const checkCategoryRef = (value: unknown, path: string) => {
+    if (typeof value !== 'string') {
+      error(path, 'Kategorie-ID muss ein String sein');
+    } else if (!categoryIds.has(value)) {
+      error(path, `Unbekannte Kategorie-ID "${value}"`);
+    }
+  };
+
+  const checkFinanzhaus = (value: unknown, path: string) => {
+    if (value === undefined) {
+      error(path, 'Feld "finanzhaus" fehlt');
+    } else if (Array.isArray(value)) {
+      if (value.length === 0) error(path, 'Feld "finanzhaus" darf nicht leer sein');
+      value.forEach((id, i) => checkCategoryRef(id, `${path}[${i}]`));
+      const duplicates = value.filter((id, i) => value.indexOf(id) !== i);
+      for (const id of new Set(duplicates)) {
+        warning(path, `Kategorie-ID "${id}" ist mehrfach angegeben`);
+      }
+    } else {
+      checkCategoryRef(value, path);
+    }
+  };
+
+  const checkIcon = (value: unknown, level: number, path: string) => {
+    if (value === undefined) return;
+    if (typeof value !== 'string' || value === '') {
+      error(path, 'Icon muss ein nicht-leerer String sein');
+    } else if (!iconLevels.has(level)) {
+      error(path, `Icon ist auf Ebene ${level} nicht erlaubt (nur Ebene ${[...iconLevels].join(', ')})`);
+    }
+  };
+
+  const checkImage = (value: unknown, path: string) => {
+    if (value === undefined) return;
+    if (!isNonEmptyString(value)) {
+      error(path, 'Bild muss ein nicht-leerer String sein');
+    } else if (options.imageExists && !options.imageExists(value)) {
+      warning(path, `Bild "${value}" nicht gefunden`);
+    }
+  };
+
+  const checkKeys = (value: Record<string, unknown>, allowed: string[], path: string) => {
+    for (const key of Object.keys(value)) {
+      if (!allowed.includes(key)) warning(`${path}.${key}`, `Unbekanntes Feld "${key}"`);
+    }
+  };
+
+  // --- categories (zuerst, da root und topics auf die IDs verweisen) ---
+  const categories = data['categories'];
+  const definedCategoryIds: string[] = [];
+  if (!Array.isArray(categories)) {
+    error('$.categories', 'Feld "categories" fehlt oder ist kein Array');
+  } else {
+    if (options.paletteSize !== undefined && categories.length > options.paletteSize) {
+      warning('$.categories', `${categories.length} Kategorien, die Themes haben nur ${options.paletteSize} Farben (weitere Kategorien unterscheiden sich nur durch nummerierte Symbole)`);
+    }
+    const housePositions = new Map<string, string>();
+    const roofPaths: string[] = [];
+
+    categories.forEach((category, i) => {
+      const path = `$.categories[${i}]`;
+      if (!isObject(category)) {
+        error(path, 'Kategorie muss ein Objekt sein');
+        return;
+      }
+      checkKeys(category, CATEGORY_KEYS, path);
+
+      const id = category['id'];
+      if (typeof id !== 'string' || !CATEGORY_ID_PATTERN.test(id)) {
+        error(`${path}.id`, 'ID muss aus Buchstaben, Ziffern, "_" oder "-" bestehen');
+      } else if (definedCategoryIds.includes(id)) {
+        error(`${path}.id`, `Kategorie "${id}" ist doppelt definiert`);
+      } else {
+        definedCategoryIds.push(id);
+      }
+
+      if (!isNonEmptyString(category['label'])) error(`${path}.label`, 'Label muss ein nicht-leerer String sein');
+
+      for (const key of ['color', 'textColor', 'accentColor']) {
+        const value = category[key];
+        if (value === undefined && key === 'accentColor') continue;
+        if (typeof value !== 'string' || !COLOR_PATTERN.test(value.trim())) {
+          error(`${path}.${key}`, 'Farbe muss als Hex-Wert (#rrggbb) oder rgb()/hsl() angegeben sein');
+        }
+      }
+
+      const icon = category['icon'];
+      if (icon !== undefined && (typeof icon !== 'string' || !SVG_PATH_PATTERN.test(icon))) {
+        error(`${path}.icon`, 'Icon muss SVG-Pfaddaten enthalten (z.B. "M3 12h18")');
+      }
+
+      const house = category['house'];
+      if (house === undefined) return;
+      if (!isObject(house)) {
+        error(`${path}.house`, 'Position muss ein Objekt mit row und optional column sein');
+        return;
+      }
+      checkKeys(house, HOUSE_KEYS, `${path}.house`);
+      const row = house['row'];
+      const column = house['column'];
+      if (!isNonNegativeInteger(row)) {
+        error(`${path}.house.row`, 'Zeile muss eine ganze Zahl ≥ 0 sein');
+        return;
+      }
+      if (column !== undefined && !isNonNegativeInteger(column)) {
+        error(`${path}.house.column`, 'Spalte muss eine ganze Zahl ≥ 0 sein');
+        return;
+      }
+      if (row === 0) roofPaths.push(`${path}.house`);
+
+      const tiles = house['tiles'];
+      if (tiles !== undefined && !Array.isArray(tiles)) {
+        error(`${path}.house.tiles`, 'Kacheln müssen ein Array sein');
+      }
+      if (Array.isArray(tiles)) {
+        tiles.forEach((tile, j) => {
+          const tilePath = `${path}.house.tiles[${j}]`;
+          if (!isObject(tile)) {
+            error(tilePath, 'Kachel muss ein Objekt mit node, label und image sein');
+            return;
+          }
+          checkKeys(tile, TILE_KEYS, tilePath);
+          for (const key of ['node', 'label']) {
+            if (!isNonEmptyString(tile[key])) error(`${tilePath}.${key}`, `Feld "${key}" muss ein nicht-leerer String sein`);
+          }
+          if (tile['image'] === undefined) error(`${tilePath}.image`, 'Feld "image" fehlt');
+          checkImage(tile['image'], `${tilePath}.image`);
+        });
+      }
+
+      const positionKey = `${row}/${column ?? 0}`;
+      const existing = housePositions.get(positionKey);
+      if (existing) {
+        error(`${path}.house`, `Position im Finanzhaus ist bereits belegt (${existing})`);
+      } else {
+        housePositions.set(positionKey, `${path}.house`);
+      }
+    });
+
+    for (const path of roofPaths.slice(1)) {
+      warning(path, `Das Dach (row 0) ist bereits mit ${roofPaths[0]} belegt`);
+    }
+  }
+  const categoryIds = new Set(options.categoryIds ?? definedCategoryIds);
+
+  // --- root ---
+  const root = data['root'];
+  let rootId: string | undefined;
+  if (!isObject(root)) {
+    error('$.root', 'Feld "root" fehlt oder ist kein Objekt');
+  } else {
+    checkKeys(root, ROOT_KEYS, '$.root');
+    if (!isNonEmptyString(root['id'])) {
+      error('$.root.id', 'Root-ID muss ein nicht-leerer String sein');
+    } else {
+      rootId = root['id'];
+      registerId(rootId, '$.root.id');
+    }
+    if (!isNonEmptyString(root['name'])) error('$.root.name', 'Name muss ein nicht-leerer String sein');
+    if (Array.isArray(root['finanzhaus'])) {
+      error('$.root.finanzhaus', 'Root erwartet genau eine Kategorie-ID');
+    } else {
+      checkFinanzhaus(root['finanzhaus'], '$.root.finanzhaus');
+    }
+    checkIcon(root['icon'], 0, '$.root.icon');
+    checkImage(root['image'], '$.root.image');
+  }
+
+  // --- topics ---
+  const walk = (topic: unknown, level: number, parentId: string | undefined, path: string) => {
+    if (!isObject(topic)) {
+      error(path, 'Knoten muss ein Objekt sein');
+      return;
+    }
+    checkKeys(topic, TOPIC_KEYS, path);
+
+    if (level > maxLevel) {
+      error(path, `Knoten liegt auf Ebene ${level}, erlaubt sind maximal ${maxLevel} Ebenen unter dem Root`);
+    }
+
+    const name = topic['name'];
+    if (!isNonEmptyString(name)) error(`${path}.name`, 'Name muss ein nicht-leerer String sein');
+
+    // Gleiche ID-Vergabe wie mapNode(), damit auch erzeugte IDs auf Kollisionen geprüft werden
+    let nodeId: string | undefined;
+    if (topic['id'] !== undefined) {
+      if (!isNonEmptyString(topic['id'])) {
+        error(`${path}.id`, 'ID muss ein nicht-leerer String sein');
+      } else {
+        nodeId = topic['id'];
+        registerId(nodeId, `${path}.id`);
+      }
+    } else if (isNonEmptyString(name)) {
+      nodeId = generateId(name, parentId);
+      registerId(nodeId, path);
+    }
+
+    checkFinanzhaus(topic['finanzhaus'], `${path}.finanzhaus`);
+    checkIcon(topic['icon'], level, `${path}.icon`);
+    checkImage(topic['image'], `${path}.image`);
+
+    const tooltip = topic['tooltip'];
+    if (tooltip !== undefined) {
+      if (typeof tooltip !== 'string') {
+        error(`${path}.tooltip`, 'Tooltip muss ein String sein');
+      } else {
+        for (const message of checkTooltipHtml(tooltip)) {
+          error(`${path}.tooltip`, message);
+        }
+      }
+    }
+
+    const children = topic['blaetter'];
+    if (children !== undefined) {
+      if (!Array.isArray(children)) {
+        error(`${path}.blaetter`, 'Feld "blaetter" muss ein Array sein');
+      } else {
+        children.forEach((child, i) => walk(child, level + 1, nodeId, `${path}.blaetter[${i}]`));
+      }
+    }
+  };
+
+  const topics = data['topics'];
+  if (!Array.isArray(topics)) {
+    error('$.topics', 'Feld "topics" fehlt oder ist kein Array');
+  } else {
+    // mapRootNode() erzeugt IDs der Topics mit der Root-ID als Parent
+    topics.forEach((topic, i) => walk(topic, 1, rootId, `$.topics[${i}]`));
+  }
+
+  return issues;
+}
+
+/** Type Guard: true, wenn die Datei keine Fehler (Warnungen sind erlaubt) enthält. */
+export function isValidFinanzData(data: unknown, options?: ValidationOptions): data is FinanzDataFile {
+  return !validateFinanzData(data, options).some(issue => issue.severity === 'error');
+}
+
+/** Formatiert einen Verstoß als einzeilige Meldung, z.B. für die Konsole. */
+export function formatIssue(issue: ValidationIssue): string {
+  const label = issue.severity === 'error' ? 'Fehler' : 'Warnung';
+  return `${label}: ${issue.path}: ${issue.message}`;
+}
+
+/**
+ * Prüft das Tooltip-HTML auf Wohlgeformtheit: nur erlaubte Tags,
+ * jedes geöffnete Tag wird in der richtigen Reihenfolge geschlossen.
+ */
+export function checkTooltipHtml(html: string): string[] {
+  const messages: string[] = [];
+  const stack: string[] = [];
+  const tagPattern = /<(\/?)([a-zA-Z][a-zA-Z0-9]*)\b[^<>]*?(\/?)>/g;
+
+  let lastIndex = 0;
+  let match: RegExpExecArray | null;
+  while ((match = tagPattern.exec(html)) !== null) {
+    checkText(html.slice(lastIndex, match.index), messages);
+    lastIndex = tagPattern.lastIndex;
+
+    const [, closing, rawName, selfClosing] = match;
+    const name = rawName.toLowerCase();
+
+    if (!TOOLTIP_TAGS.has(name)) {
+      messages.push(`Tag <${name}> ist im Tooltip nicht erlaubt`);
+      continue;
+    }
+    if (VOID_TAGS.has(name)) {
+      if (closing) messages.push(`Tag <${name}> darf nicht geschlossen werden`);
+      continue;
+    }
+    if (selfClosing) {
+      messages.push(`Tag <${name}/> darf nicht selbstschließend sein`);
+      continue;
+    }
+    if (!closing) {
+      stack.push(name);
+      continue;
+    }
+
+    const openIndex = stack.lastIndexOf(name);
+    if (openIndex === -1) {
+      messages.push(`Schließendes Tag </${name}> ohne öffnendes Tag`);
+    } else {
+      for (const unclosed of stack.splice(openIndex).slice(1).reverse()) {
+        messages.push(`Tag <${unclosed}> wird vor </${name}> nicht geschlossen`);
+      }
+    }
+  }
+  checkText(html.slice(lastIndex), messages);
+
+  for (const unclosed of stack.reverse()) {
+    messages.push(`Tag <${unclosed}> wird nicht geschlossen`);
+  }
+
+  return messages;
+}
+
+// Text zwischen Tags darf keine einzelnen spitzen Klammern enthalten
+function checkText(text: string, messages: string[]): void {
+  if (text.includes('<') || text.includes('>')) {
+    messages.push(`Unmaskiertes "<" oder ">" in "${text.trim().slice(0, 40)}"`);
+  }
+}
+
+function isNonNegativeInteger(value: unknown): value is number {
+  return typeof value === 'number' && Number.isInteger(value) && value >= 0;
+}
+
+function isNonEmptyString(value: unknown): value is string {
+  return typeof value === 'string' && value.trim() !== '';
+}
@@ -0,0 +1,23 @@
+/**
+ * Gemeinsame Prüfungen für eingelesenes JSON (Datendateien, Datenpakete, Layout- und Tour-Dateien, localStorage).
+ */
+
+// Anzahl der Fehler, die in der Fehlermeldung aufgeführt werden
+const MAX_REPORTED_ERRORS = 5;
+
+export function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+export function isPosition(value: unknown): value is { x: number; y: number } {
+  return isObject(value) && Number.isFinite(value['x']) && Number.isFinite(value['y']);
+}
+
+/** Fehlermeldung mit Anzahl und den ersten Verstößen, z.B. "Layout ist ungültig (2 Fehler):\n…" */
+export function formatErrorList(subject: string, errors: string[]): string {
+  const listed = errors.slice(0, MAX_REPORTED_ERRORS);
+  if (errors.length > MAX_REPORTED_ERRORS) {
+    listed.push(`… und ${errors.length - MAX_REPORTED_ERRORS} weitere`);
+  }
+  return `${subject} ist ungültig (${errors.length} Fehler):\n${listed.join('\n')}`;
+}
@@ -0,0 +1,140 @@
+/**
+ * Layout-Dateien: Export und Import der Ansicht als JSON (gleiche Struktur wie der localStorage-Zustand).
+ *
+ *   {
+ *     "version": 1,
+ *     "dataMode": "produkte",
+ *     "expandedNodes": ["l1_finanzierung", …],
+ *     "activeCategories": [],
+ *     "zoomLevel": 0.8,
+ *     "panOffset": { "x": 0, "y": 0 },
+ *     "userPositions": { "l1_finanzierung": { "x": -320, "y": 40 }, … },
+ *     "nodeStatuses": { "l3_avalkredit": "need", … }
+ *   }
+ *
+ * Dateien ohne "version" (z.B. von Hand kopierter localStorage-Inhalt) werden wie Version 1 gelesen.
+ * "nodeStatuses" (Bedarfs-Checkliste, siehe tools/node-status.ts) ist optional.
+ */
+import { formatErrorList, isObject, isPosition } from './json-guards';
+import { NodeStatus, isNodeStatus } from './node-status';
+
+export const LAYOUT_FILE_VERSION = 1;
+
+// Ansicht: alles, was auch im localStorage-Zustand je Datenmodus steht
+export interface ViewState {
+  expandedNodes: string[];
+  activeCategories: string[];
+  zoomLevel: number;
+  panOffset: { x: number; y: number };
+  userPositions: Record<string, { x: number; y: number }>;
+  /** Status je Node-ID (fehlt z.B. in Standard-Layouts) */
+  nodeStatuses?: Record<string, NodeStatus>;
+}
+
+export interface LayoutFile extends ViewState {
+  version: number;
+  /** Datenmodus, in dem das Layout erstellt wurde */
+  dataMode?: string;
+}
+
+/** IDs im Layout, die in den aktuellen Daten nicht (mehr) vorkommen */
+export interface UnknownLayoutIds {
+  nodeIds: string[];
+  categoryIds: string[];
+}
+
+export function createLayoutFile(state: ViewState, dataMode: string): LayoutFile {
+  return { version: LAYOUT_FILE_VERSION, dataMode, ...state };
+}
+
+/** Prüft eine Layout-Datei und wirft einen Error mit den ersten Verstößen (inkl. JSON-Pfad). */
+export function parseLayoutFile(json: unknown): LayoutFile {
+  if (typeof json !== 'object' || json === null || Array.isArray(json)) {
+    throw new Error('Layout muss ein JSON-Objekt sein');
+  }
+
+  const raw = json as Record<string, unknown>;
+  const version = raw['version'] ?? LAYOUT_FILE_VERSION;
+  if (version !== LAYOUT_FILE_VERSION) {
+    throw new Error(`Layout-Version ${JSON.stringify(version)} wird nicht unterstützt (erwartet ${LAYOUT_FILE_VERSION})`);
+  }
+
+  const errors: string[] = [];
+  const error = (path: string, message: string) => errors.push(`${path}: ${message}`);
+
+  if (raw['dataMode'] !== undefined && typeof raw['dataMode'] !== 'string') {
+    error('$.dataMode', 'Erwartet einen String');
+  }
+  for (const key of ['expandedNodes', 'activeCategories'] as const) {
+    const list = raw[key];
+    if (!Array.isArray(list) || list.some(item => typeof item !== 'string')) {
+      error(`$.${key}`, 'Erwartet ein Array von IDs');
+    }
+  }
+  const zoomLevel = raw['zoomLevel'];
+  if (typeof zoomLevel !== 'number' || !(zoomLevel > 0)) {
+    error('$.zoomLevel', 'Erwartet eine Zahl größer 0');
+  }
+  if (!isPosition(raw['panOffset'])) {
+    error('$.panOffset', 'Erwartet { "x": Zahl, "y": Zahl }');
+  }
+  const userPositions = raw['userPositions'];
+  if (!isObject(userPositions)) {
+    error('$.userPositions', 'Erwartet ein Objekt mit Positionen je Node-ID');
+  } else {
+    for (const [nodeId, position] of Object.entries(userPositions)) {
+      if (!isPosition(position)) {
+        error(`$.userPositions.${nodeId}`, 'Erwartet { "x": Zahl, "y": Zahl }');
+      }
+    }
+  }
+  const nodeStatuses = raw['nodeStatuses'];
+  if (nodeStatuses !== undefined) {
+    if (!isObject(nodeStatuses)) {
+      error('$.nodeStatuses', 'Erwartet ein Objekt mit Status je Node-ID');
+    } else {
+      for (const [nodeId, status] of Object.entries(nodeStatuses)) {
+        if (!isNodeStatus(status)) {
+          error(`$.nodeStatuses.${nodeId}`, 'Erwartet "discussed", "need", "customer" oder "no-need"');
+        }
+      }
+    }
+  }
+
+  if (errors.length > 0) {
+    throw new Error(formatErrorList('Layout', errors));
+  }
+
+  return {
+    version: LAYOUT_FILE_VERSION,
+    dataMode: raw['dataMode'] as string | undefined,
+    expandedNodes: raw['expandedNodes'] as string[],
+    activeCategories: raw['activeCategories'] as string[],
+    zoomLevel: zoomLevel as number,
+    panOffset: raw['panOffset'] as ViewState['panOffset'],
+    userPositions: userPositions as ViewState['userPositions'],
+    ...(nodeStatuses !== undefined ? { nodeStatuses: nodeStatuses as ViewState['nodeStatuses'] } : {})
+  };
+}
+
+/** Sucht Node- und Kategorie-IDs des Layouts, die es in den aktuellen Daten nicht gibt. */
+export function findUnknownLayoutIds(state: ViewState, nodeIds: Set<string>, categoryIds: string[]): UnknownLayoutIds {
+  const unknownNodeIds = [...new Set([...state.expandedNodes, ...Object.keys(state.userPositions), ...Object.keys(state.nodeStatuses ?? {})])]
+    .filter(id => !nodeIds.has(id));
+  return {
+    nodeIds: unknownNodeIds,
+    categoryIds: state.activeCategories.filter(id => !categoryIds.includes(id))
+  };
+}
+
+/** Entfernt die übergebenen unbekannten IDs aus dem Layout. */
+export function removeLayoutIds(state: ViewState, unknown: UnknownLayoutIds): ViewState {
+  const nodeIds = new Set(unknown.nodeIds);
+  return {
+    ...state,
+    expandedNodes: state.expandedNodes.filter(id => !nodeIds.has(id)),
+    activeCategories: state.activeCategories.filter(id => !unknown.categoryIds.includes(id)),
+    userPositions: Object.fromEntries(Object.entries(state.userPositions).filter(([id]) => !nodeIds.has(id))),
+    ...(state.nodeStatuses ? { nodeStatuses: Object.fromEntries(Object.entries(state.nodeStatuses).filter(([id]) => !nodeIds.has(id))) } : {})
+  };
+}
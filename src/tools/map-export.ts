@@ -0,0 +1,277 @@
+/**
+ * Export der MindMap als eigenständige SVG- bzw. PNG-Datei (z.B. als Anlage zum Gesprächsprotokoll).
+ *
+ * Die App beschreibt die sichtbaren Nodes und Verbindungslinien als Szene (Positionen aus dem
+ * Force-Layout, Größen und Farben wie im Template). Daraus entsteht ein SVG ohne externe Verweise:
+ * Piktogramme werden als Data-URL eingebettet, Texte nutzen die Systemschrift.
+ * PNG (und JPEG für PDF-Dokumente) werden aus demselben SVG in höherer Auflösung gerastert.
+ */
+
+export interface ExportNode {
+  label: string;
+  level: number;
+  x: number;
+  y: number;
+  /** Durchmesser der Kugel inkl. Rahmen */
+  size: number;
+  borderWidth: number;
+  borderColor: string;
+  /** Icon (SVG-Pfad im 24×24-Raster), falls kein Piktogramm vorhanden ist */
+  iconPath: string;
+  iconColor: string;
+  iconSize: number;
+  /** Piktogramm (URL oder Data-URL) */
+  image: string | null;
+  imageSize: number;
+  fontSize: number;
+  fontWeight: number;
+  /** Abstand zwischen Kugel und Label */
+  labelGap: number;
+  /** Längere Labels werden mit "…" gekürzt (wie text-overflow: ellipsis) */
+  labelMaxWidth: number | null;
+  /** Abgeblendet durch Filter oder Fokus-Modus */
+  dimmed: boolean;
+}
+
+export interface ExportLine {
+  x1: number;
+  y1: number;
+  x2: number;
+  y2: number;
+  color: string;
+  width: number;
+  opacity: number;
+}
+
+export interface ExportScene {
+  nodes: ExportNode[];
+  lines: ExportLine[];
+  background: string;
+  nodeFill: string;
+  textColor: string;
+  fontFamily: string;
+}
+
+/** Ausschnitt im Koordinatensystem des Force-Layouts */
+export interface ExportArea {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+// Rand um die Nodes beim Export der gesamten Karte
+const BOUNDS_PADDING = 40;
+// Zeilenhöhe der Labels (wie .node__label)
+const LABEL_LINE_HEIGHT = 1.3;
+// Abblendung wie .node--dimmed (opacity 0.4, grayscale 0.9)
+const DIMMED_OPACITY = 0.4;
+const DIMMED_SATURATION = 0.1;
+
+/** Standard-Auflösung des PNG (Faktor gegenüber der Bildschirmdarstellung bei Zoom 1) */
+export const PNG_SCALE = 3;
+// Browser begrenzen die Canvas-Größe, größere Karten werden entsprechend kleiner gerastert
+const MAX_CANVAS_SIDE = 8192;
+
+/** Umgebendes Rechteck aller Nodes inkl. Labels, mit Rand. */
+export function getSceneBounds(scene: ExportScene): ExportArea {
+  let minX = Infinity, maxX = -Infinity;
+  let minY = Infinity, maxY = -Infinity;
+
+  for (const node of scene.nodes) {
+    const radius = node.size / 2;
+    const labelWidth = measureLabel(node, scene.fontFamily).width;
+    const halfWidth = Math.max(radius, labelWidth / 2);
+    minX = Math.min(minX, node.x - halfWidth);
+    maxX = Math.max(maxX, node.x + halfWidth);
+    minY = Math.min(minY, node.y - radius);
+    maxY = Math.max(maxY, node.y + radius + node.labelGap + node.fontSize * LABEL_LINE_HEIGHT);
+  }
+
+  if (minX > maxX) return { x: 0, y: 0, width: 0, height: 0 };
+  return {
+    x: minX - BOUNDS_PADDING,
+    y: minY - BOUNDS_PADDING,
+    width: maxX - minX + BOUNDS_PADDING * 2,
+    height: maxY - minY + BOUNDS_PADDING * 2
+  };
+}
+
+/** Erzeugt das SVG für den übergebenen Ausschnitt (1 SVG-Einheit = 1 px bei Zoom 1). */
+export function renderSvg(scene: ExportScene, area: ExportArea): string {
+  const defs: string[] = [
+    `<filter id="dimmed"><feColorMatrix type="saturate" values="${DIMMED_SATURATION}"/></filter>`
+  ];
+  const body: string[] = [
+    `<rect x="${num(area.x)}" y="${num(area.y)}" width="${num(area.width)}" height="${num(area.height)}" fill="${attr(scene.background)}"/>`
+  ];
+
+  for (const line of scene.lines) {
+    body.push(
+      `<line x1="${num(line.x1)}" y1="${num(line.y1)}" x2="${num(line.x2)}" y2="${num(line.y2)}" ` +
+      `stroke="${attr(line.color)}" stroke-width="${num(line.width)}" stroke-opacity="${num(line.opacity)}"/>`
+    );
+  }
+
+  // Höhere Ebenen liegen oben (wie die z-index-Staffelung im Template)
+  const nodes = [...scene.nodes].sort((a, b) => a.level - b.level);
+  nodes.forEach((node, i) => {
+    const radius = node.size / 2;
+    const parts: string[] = [
+      `<circle cx="${num(node.x)}" cy="${num(node.y)}" r="${num(radius - node.borderWidth / 2)}" ` +
+      `fill="${attr(scene.nodeFill)}" stroke="${attr(node.borderColor)}" stroke-width="${num(node.borderWidth)}"/>`
+    ];
+
+    if (node.image) {
+      const half = node.imageSize / 2;
+      defs.push(`<clipPath id="clip-${i}"><circle cx="${num(node.x)}" cy="${num(node.y)}" r="${num(half)}"/></clipPath>`);
+      parts.push(
+        `<image href="${attr(node.image)}" x="${num(node.x - half)}" y="${num(node.y - half)}" ` +
+        `width="${num(node.imageSize)}" height="${num(node.imageSize)}" preserveAspectRatio="xMidYMid slice" clip-path="url(#clip-${i})"/>`
+      );
+    } else {
+      const half = node.iconSize / 2;
+      parts.push(
+        `<svg x="${num(node.x - half)}" y="${num(node.y - half)}" width="${num(node.iconSize)}" height="${num(node.iconSize)}" viewBox="0 0 24 24" overflow="visible">` +
+        `<path d="${attr(node.iconPath)}" fill="none" stroke="${attr(node.iconColor)}" stroke-width="1.5" stroke-linecap="round" stroke-linejoin="round"/>` +
+        `</svg>`
+      );
+    }
+
+    const label = measureLabel(node, scene.fontFamily).text;
+    const labelY = node.y + radius + node.labelGap + node.fontSize * LABEL_LINE_HEIGHT / 2;
+    parts.push(
+      `<text x="${num(node.x)}" y="${num(labelY)}" text-anchor="middle" dominant-baseline="central" ` +
+      `font-size="${num(node.fontSize)}" font-weight="${node.fontWeight}" fill="${attr(scene.textColor)}">${text(label)}</text>`
+    );
+
+    const group = node.dimmed ? ` opacity="${DIMMED_OPACITY}" filter="url(#dimmed)"` : '';
+    body.push(`<g${group}>${parts.join('')}</g>`);
+  });
+
+  return [
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${num(area.width)}" height="${num(area.height)}" ` +
+    `viewBox="${num(area.x)} ${num(area.y)} ${num(area.width)} ${num(area.height)}" font-family="${attr(scene.fontFamily)}">`,
+    `<defs>${defs.join('')}</defs>`,
+    ...body,
+    '</svg>'
+  ].join('\n');
+}
+
+/**
+ * Ersetzt die Bild-URLs der Szene durch Data-URLs, damit SVG und PNG ohne die App funktionieren.
+ * Nicht ladbare Bilder werden durch das Icon ersetzt.
+ */
+export async function embedImages(scene: ExportScene): Promise<ExportScene> {
+  const urls = [...new Set(scene.nodes.map(node => node.image).filter((url): url is string => url !== null))];
+  const dataUrls = new Map<string, string | null>();
+
+  await Promise.all(urls.map(async url => {
+    try {
+      const response = await fetch(url);
+      if (!response.ok) {
+        throw new Error(`HTTP ${response.status} ${response.statusText}`.trim());
+      }
+      dataUrls.set(url, await readAsDataUrl(await response.blob()));
+    } catch (e) {
+      console.warn(`Failed to embed image "${url}":`, e);
+      dataUrls.set(url, null);
+    }
+  }));
+
+  return {
+    ...scene,
+    nodes: scene.nodes.map(node => node.image ? { ...node, image: dataUrls.get(node.image) ?? null } : node)
+  };
+}
+
+/** Rastert ein mit renderSvg() erzeugtes SVG als PNG (scale = Pixel je SVG-Einheit). */
+export function renderPng(svg: string, area: ExportArea, scale = PNG_SCALE): Promise<Blob> {
+  return rasterizeSvg(svg, area, scale, 'image/png');
+}
+
+/** Rastert ein mit renderSvg() erzeugtes SVG als JPEG (z.B. für PDF-Dokumente). */
+export function renderJpeg(svg: string, area: ExportArea, scale: number): Promise<Blob> {
+  return rasterizeSvg(svg, area, scale, 'image/jpeg');
+}
+
+/** Pixelgröße, in der renderPng()/renderJpeg() den Ausschnitt rastern */
+export function getRasterSize(area: ExportArea, scale: number): { width: number; height: number } {
+  const effectiveScale = Math.min(scale, MAX_CANVAS_SIDE / area.width, MAX_CANVAS_SIDE / area.height);
+  return {
+    width: Math.max(1, Math.round(area.width * effectiveScale)),
+    height: Math.max(1, Math.round(area.height * effectiveScale))
+  };
+}
+
+async function rasterizeSvg(svg: string, area: ExportArea, scale: number, type: string): Promise<Blob> {
+  const size = getRasterSize(area, scale);
+  const canvas = document.createElement('canvas');
+  canvas.width = size.width;
+  canvas.height = size.height;
+
+  const url = URL.createObjectURL(new Blob([svg], { type: 'image/svg+xml' }));
+  try {
+    const image = new Image();
+    image.src = url;
+    await image.decode();
+
+    const context = canvas.getContext('2d');
+    if (!context) {
+      throw new Error('Canvas wird nicht unterstützt');
+    }
+    context.drawImage(image, 0, 0, canvas.width, canvas.height);
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+
+  return new Promise<Blob>((resolve, reject) => {
+    canvas.toBlob(blob => blob ? resolve(blob) : reject(new Error('Bild konnte nicht erzeugt werden')), type);
+  });
+}
+
+// Canvas zum Messen der Labels (einmal pro Seite)
+let measureContext: CanvasRenderingContext2D | null = null;
+
+// Label (ggf. gekürzt) und seine Breite
+function measureLabel(node: ExportNode, fontFamily: string): { text: string; width: number } {
+  measureContext ??= document.createElement('canvas').getContext('2d');
+  if (!measureContext) {
+    return { text: node.label, width: node.label.length * node.fontSize * 0.6 };
+  }
+
+  measureContext.font = `${node.fontWeight} ${node.fontSize}px ${fontFamily}`;
+  const width = measureContext.measureText(node.label).width;
+  if (node.labelMaxWidth === null || width <= node.labelMaxWidth) {
+    return { text: node.label, width };
+  }
+
+  let label = node.label;
+  while (label.length > 1 && measureContext.measureText(`${label}…`).width > node.labelMaxWidth) {
+    label = label.slice(0, -1);
+  }
+  label = `${label.trimEnd()}…`;
+  return { text: label, width: measureContext.measureText(label).width };
+}
+
+function readAsDataUrl(blob: Blob): Promise<string> {
+  return new Promise<string>((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+}
+
+// Zahlen kompakt ausgeben (2 Nachkommastellen genügen auch für das PNG)
+function num(value: number): string {
+  return String(Math.round(value * 100) / 100);
+}
+
+function text(value: string): string {
+  return value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
+
+function attr(value: string): string {
+  return text(value).replace(/"/g, '&quot;');
+}
@@ -0,0 +1,177 @@
+/**
+ * Volltextsuche über alle Nodes (Labels und Tooltips ohne HTML).
+ *
+ * Die Suche ist tolerant gegenüber Tippfehlern (Damerau-Levenshtein-Distanz je Wort),
+ * Groß-/Kleinschreibung und Umlauten ("Buergschaft" findet "Bürgschaft").
+ * Treffer im Label zählen mehr als Treffer im Tooltip, exakte Treffer mehr als unscharfe.
+ */
+import type { Node } from '../services/data.service';
+
+export interface SearchEntry {
+  node: Node;
+  level: number;
+  /** Labels der Vorfahren ohne Root, z.B. ["Finanzierung", "Investitionen finanzieren"] */
+  path: string[];
+  labelWords: string[];
+  tooltipWords: string[];
+  label: string;
+  tooltip: string;
+}
+
+export interface SearchResult {
+  entry: SearchEntry;
+  score: number;
+}
+
+// Gewichte je Art des Treffers (pro Suchwort)
+const SCORE_LABEL_EXACT = 100;
+const SCORE_LABEL_PREFIX = 80;
+const SCORE_LABEL_SUBSTRING = 60;
+const SCORE_LABEL_FUZZY = 40;
+// Label-Wort (ab MIN_FUZZY_LENGTH Zeichen) als Anfang des Suchworts, z.B. "avalkredit" findet "Aval"
+const SCORE_LABEL_WORD_PREFIX = 30;
+const SCORE_TOOLTIP_EXACT = 25;
+const SCORE_TOOLTIP_PREFIX = 20;
+const SCORE_TOOLTIP_SUBSTRING = 12;
+const SCORE_TOOLTIP_FUZZY = 8;
+
+// Suchwörter kürzer als MIN_FUZZY_LENGTH werden nur exakt bzw. als Präfix gesucht
+const MIN_FUZZY_LENGTH = 4;
+
+export const DEFAULT_RESULT_LIMIT = 10;
+
+/** Baut den Suchindex für alle Nodes unterhalb des Root (der Root selbst wird nicht indexiert). */
+export function buildSearchIndex(root: Node): SearchEntry[] {
+  const entries: SearchEntry[] = [];
+
+  const walk = (node: Node, level: number, path: string[]) => {
+    const label = normalize(node.label);
+    const tooltip = normalize(stripHtml(node.tooltip ?? ''));
+    entries.push({
+      node,
+      level,
+      path,
+      label,
+      tooltip,
+      labelWords: splitWords(label),
+      tooltipWords: splitWords(tooltip)
+    });
+    node.children?.forEach(child => walk(child, level + 1, [...path, node.label]));
+  };
+  root.children?.forEach(child => walk(child, 1, []));
+
+  return entries;
+}
+
+/**
+ * Durchsucht den Index. Jedes Suchwort muss im Label oder Tooltip vorkommen (auch unscharf).
+ * Sortierung: Punktzahl absteigend, bei Gleichstand höhere Ebene (L1 vor L3) und kürzeres Label zuerst.
+ */
+export function searchNodes(index: SearchEntry[], query: string, limit = DEFAULT_RESULT_LIMIT): SearchResult[] {
+  const terms = splitWords(normalize(query));
+  if (terms.length === 0) return [];
+
+  const results: SearchResult[] = [];
+  for (const entry of index) {
+    let score = 0;
+    for (const term of terms) {
+      const termScore = scoreTerm(entry, term);
+      if (termScore === 0) {
+        score = 0;
+        break;
+      }
+      score += termScore;
+    }
+    if (score > 0) {
+      // Die ganze Eingabe im Label (z.B. "girokonto bezahlen") zählt zusätzlich
+      if (terms.length > 1 && entry.label.includes(terms.join(' '))) score += SCORE_LABEL_SUBSTRING;
+      results.push({ entry, score });
+    }
+  }
+
+  return results
+    .sort((a, b) =>
+      b.score - a.score ||
+      a.entry.level - b.entry.level ||
+      a.entry.label.length - b.entry.label.length
+    )
+    .slice(0, limit);
+}
+
+function scoreTerm(entry: SearchEntry, term: string): number {
+  const label = scoreWords(entry.labelWords, entry.label, term,
+    [SCORE_LABEL_EXACT, SCORE_LABEL_PREFIX, SCORE_LABEL_SUBSTRING, SCORE_LABEL_FUZZY, SCORE_LABEL_WORD_PREFIX]);
+  if (label >= SCORE_LABEL_SUBSTRING) return label;
+
+  const tooltip = scoreWords(entry.tooltipWords, entry.tooltip, term,
+    [SCORE_TOOLTIP_EXACT, SCORE_TOOLTIP_PREFIX, SCORE_TOOLTIP_SUBSTRING, SCORE_TOOLTIP_FUZZY, 0]);
+  return Math.max(label, tooltip);
+}
+
+function scoreWords(words: string[], text: string, term: string, [exact, prefix, substring, fuzzy, wordPrefix]: number[]): number {
+  if (words.includes(term)) return exact;
+  if (words.some(word => word.startsWith(term))) return prefix;
+  if (text.includes(term)) return substring;
+  if (term.length < MIN_FUZZY_LENGTH) return 0;
+
+  const maxDistance = term.length >= 8 ? 2 : 1;
+  const matches = words.some(word =>
+    // Auch Wortanfänge vergleichen, damit "avalkred" "avalkredit" findet
+    distance(word, term, maxDistance) <= maxDistance ||
+    (word.length > term.length && distance(word.slice(0, term.length), term, maxDistance) <= maxDistance)
+  );
+  if (matches) return fuzzy;
+
+  // Suchwort verlängert ein Wort (auch mit Tippfehler dahinter), z.B. "avalkredt" → "Aval"
+  const extendsWord = wordPrefix > 0 && words.some(word => word.length >= MIN_FUZZY_LENGTH && term.startsWith(word));
+  return extendsWord ? wordPrefix : 0;
+}
+
+/** Damerau-Levenshtein-Distanz (Vertauschung benachbarter Zeichen zählt 1), Abbruch oberhalb von max. */
+function distance(a: string, b: string, max: number): number {
+  if (Math.abs(a.length - b.length) > max) return max + 1;
+
+  let previousPrevious: number[] = [];
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    let rowMin = i;
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      let value = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        value = Math.min(value, previousPrevious[j - 2] + 1);
+      }
+      current.push(value);
+      rowMin = Math.min(rowMin, value);
+    }
+    if (rowMin > max) return max + 1;
+    previousPrevious = previous;
+    previous = current;
+  }
+
+  return previous[b.length];
+}
+
+// Kleinschreibung, Umlaute als ae/oe/ue/ss, übrige Akzente entfernt
+function normalize(text: string): string {
+  return text
+    .toLowerCase()
+    .replace(/ä/g, 'ae').replace(/ö/g, 'oe').replace(/ü/g, 'ue').replace(/ß/g, 'ss')
+    .normalize('NFD').replace(/[\u0300-\u036f]/g, '')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+function splitWords(text: string): string[] {
+  return text.split(/[^a-z0-9]+/).filter(word => word.length > 0);
+}
+
+function stripHtml(html: string): string {
+  return html
+    .replace(/<[^>]*>/g, ' ')
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&amp;/g, '&')
+    .replace(/&[a-z]+;/g, ' ');
+}
@@ -0,0 +1,66 @@
+/**
+ * Bedarfs-Checkliste: Status je Node aus dem Beratungsgespräch.
+ *
+ * Markiert werden Themen ab L3 (wie die Info im Info-Panel). L1 und L2 zeigen die Summe der Status
+ * ihrer Nachkommen (Roll-up). Gespeichert wird der Status mit der Ansicht (ViewState.nodeStatuses).
+ */
+import type { Node } from '../services/data.service';
+
+export type NodeStatus = 'discussed' | 'need' | 'customer' | 'no-need';
+
+/** Reihenfolge in Auswahl, Badges und beim Durchschalten per Tastatur */
+export const NODE_STATUSES: NodeStatus[] = ['discussed', 'need', 'customer', 'no-need'];
+
+/** Ab dieser Ebene lässt sich ein Status setzen */
+export const STATUS_LEVEL = 3;
+
+export type StatusCounts = Partial<Record<NodeStatus, number>>;
+
+export function isNodeStatus(value: unknown): value is NodeStatus {
+  return NODE_STATUSES.includes(value as NodeStatus);
+}
+
+/** Nächster Status beim Durchschalten; nach dem letzten wieder ohne Status */
+export function nextNodeStatus(status: NodeStatus | null): NodeStatus | null {
+  if (status === null) return NODE_STATUSES[0];
+  return NODE_STATUSES[NODE_STATUSES.indexOf(status) + 1] ?? null;
+}
+
+/** Anzahl der Status unter jedem Node (ohne den Node selbst); Nodes ohne markierte Nachkommen fehlen */
+export function rollUpStatuses(root: Node, statuses: Record<string, NodeStatus>): Map<string, StatusCounts> {
+  const rollUp = new Map<string, StatusCounts>();
+  // Liefert die Anzahl im ganzen Teilbaum (inkl. des Nodes) für den Parent
+  const walk = (node: Node): StatusCounts => {
+    const below: StatusCounts = {};
+    node.children?.forEach(child => addCounts(below, walk(child)));
+    if (Object.keys(below).length > 0) rollUp.set(node.id, below);
+
+    const own = statuses[node.id];
+    return own ? addCounts({ ...below }, { [own]: 1 }) : below;
+  };
+  walk(root);
+  return rollUp;
+}
+
+/** IDs der Nodes mit dem Status und ihrer Vorfahren (Status-Filter) */
+export function collectStatusPath(root: Node, statuses: Record<string, NodeStatus>, status: NodeStatus): Set<string> {
+  const ids = new Set<string>();
+  const walk = (node: Node): boolean => {
+    let match = statuses[node.id] === status;
+    for (const child of node.children ?? []) {
+      if (walk(child)) match = true;
+    }
+    if (match) ids.add(node.id);
+    return match;
+  };
+  walk(root);
+  return ids;
+}
+
+function addCounts(target: StatusCounts, source: StatusCounts): StatusCounts {
+  for (const status of NODE_STATUSES) {
+    const count = source[status];
+    if (count) target[status] = (target[status] ?? 0) + count;
+  }
+  return target;
+}
@@ -0,0 +1,364 @@
+/**
+ * Schlanker PDF-Generator für einfache Berichte (Überschriften, Fließtext, ein Bild je Block).
+ *
+ * Genügt für die Beratungszusammenfassung, ohne eine PDF-Bibliothek zu laden:
+ * DIN A4, Standardschriften Helvetica/Helvetica-Bold (WinAnsi, d.h. inkl. Umlaute, „“, –, •, €),
+ * Bilder als JPEG. Absätze werden anhand der Zeichenbreiten umbrochen, Seiten automatisch angelegt.
+ */
+
+export interface PdfRun {
+  text: string;
+  bold?: boolean;
+}
+
+export type PdfBlock =
+  | { type: 'heading'; text: string; level: 1 | 2 | 3; color?: string }
+  | { type: 'paragraph'; runs: PdfRun[]; indent?: number; size?: number; color?: string }
+  | { type: 'image'; jpeg: Uint8Array; width: number; height: number; maxHeight?: number }
+  | { type: 'spacer'; height: number };
+
+export interface PdfOptions {
+  title: string;
+  /** Fußzeile links, rechts steht die Seitenzahl ("{page} / {pages}") */
+  footer?: string;
+}
+
+// DIN A4 in Punkt
+const PAGE_WIDTH = 595.28;
+const PAGE_HEIGHT = 841.89;
+const MARGIN = 50;
+const CONTENT_WIDTH = PAGE_WIDTH - MARGIN * 2;
+const FOOTER_SIZE = 8;
+
+const BODY_SIZE = 10;
+const LINE_HEIGHT = 1.35;
+const HEADING_SIZES = { 1: 18, 2: 13, 3: 11 };
+// Abstand vor Überschriften bzw. nach Absätzen
+const HEADING_SPACE = { 1: 0, 2: 14, 3: 8 };
+const PARAGRAPH_SPACE = 4;
+// Überschriften stehen nie allein am Seitenende (Platz für so viele Textzeilen danach)
+const KEEP_WITH_NEXT_LINES = 3;
+
+const TEXT_COLOR = '#1e293b';
+
+/** Erzeugt das PDF als Blob (application/pdf). */
+export function createPdf(blocks: PdfBlock[], options: PdfOptions): Blob {
+  const images: PdfImage[] = [];
+  const pages = layoutPages(blocks, images);
+  return new Blob([serialize(pages, images, options)], { type: 'application/pdf' });
+}
+
+// --- Layout ---
+
+interface PdfImage {
+  jpeg: Uint8Array;
+  width: number;
+  height: number;
+}
+
+interface Line {
+  words: { text: string; bold: boolean; width: number }[];
+  width: number;
+}
+
+function layoutPages(blocks: PdfBlock[], images: PdfImage[]): string[][] {
+  const pages: string[][] = [[]];
+  let y = PAGE_HEIGHT - MARGIN;
+  const newPage = () => {
+    pages.push([]);
+    y = PAGE_HEIGHT - MARGIN;
+  };
+  const ensureSpace = (height: number) => {
+    if (y - height < MARGIN && y < PAGE_HEIGHT - MARGIN) newPage();
+  };
+  const page = () => pages[pages.length - 1];
+
+  for (const block of blocks) {
+    if (block.type === 'spacer') {
+      y -= block.height;
+      continue;
+    }
+
+    if (block.type === 'heading') {
+      const size = HEADING_SIZES[block.level];
+      const atTop = y === PAGE_HEIGHT - MARGIN;
+      if (!atTop) y -= HEADING_SPACE[block.level];
+      ensureSpace(size * LINE_HEIGHT + KEEP_WITH_NEXT_LINES * BODY_SIZE * LINE_HEIGHT);
+      for (const line of wrap([{ text: block.text, bold: true }], size, CONTENT_WIDTH)) {
+        y -= size * LINE_HEIGHT;
+        page().push(textOps(line, MARGIN, y + size * (LINE_HEIGHT - 1), size, block.color ?? TEXT_COLOR));
+      }
+      y -= size * 0.3;
+      continue;
+    }
+
+    if (block.type === 'paragraph') {
+      const size = block.size ?? BODY_SIZE;
+      const indent = block.indent ?? 0;
+      for (const line of wrap(block.runs, size, CONTENT_WIDTH - indent)) {
+        ensureSpace(size * LINE_HEIGHT);
+        y -= size * LINE_HEIGHT;
+        page().push(textOps(line, MARGIN + indent, y + size * (LINE_HEIGHT - 1), size, block.color ?? TEXT_COLOR));
+      }
+      y -= PARAGRAPH_SPACE;
+      continue;
+    }
+
+    // Bild: auf Inhaltsbreite skaliert, ggf. auf maxHeight bzw. die Seitenhöhe begrenzt
+    const maxHeight = Math.min(block.maxHeight ?? Infinity, PAGE_HEIGHT - MARGIN * 2);
+    const scale = Math.min(CONTENT_WIDTH / block.width, maxHeight / block.height);
+    const width = block.width * scale;
+    const height = block.height * scale;
+    ensureSpace(height);
+    y -= height;
+    images.push({ jpeg: block.jpeg, width: block.width, height: block.height });
+    const x = MARGIN + (CONTENT_WIDTH - width) / 2;
+    page().push(`q ${num(width)} 0 0 ${num(height)} ${num(x)} ${num(y)} cm /Im${images.length} Do Q`);
+    y -= PARAGRAPH_SPACE * 2;
+  }
+
+  return pages;
+}
+
+// Zeilenumbruch an Leerzeichen; zu lange Wörter bleiben ungeteilt
+function wrap(runs: PdfRun[], size: number, maxWidth: number): Line[] {
+  const lines: Line[] = [];
+  let current: Line = { words: [], width: 0 };
+  const spaceWidth = (bold: boolean) => textWidth(' ', bold, size);
+
+  for (const run of runs) {
+    const bold = run.bold ?? false;
+    const parts = run.text.split(/(\s+)/);
+    for (const part of parts) {
+      if (part.length === 0) continue;
+      if (/^\s+$/.test(part)) {
+        // Leerzeichen nur zwischen Wörtern derselben Zeile
+        if (current.words.length > 0) {
+          current.words.push({ text: ' ', bold, width: spaceWidth(bold) });
+          current.width += spaceWidth(bold);
+        }
+        continue;
+      }
+
+      const width = textWidth(part, bold, size);
+      if (current.width + width > maxWidth && current.words.length > 0) {
+        trimTrailingSpace(current);
+        lines.push(current);
+        current = { words: [], width: 0 };
+      }
+      current.words.push({ text: part, bold, width });
+      current.width += width;
+    }
+  }
+
+  trimTrailingSpace(current);
+  if (current.words.length > 0 || lines.length === 0) lines.push(current);
+  return lines;
+}
+
+function trimTrailingSpace(line: Line): void {
+  while (line.words.length > 0 && line.words[line.words.length - 1].text === ' ') {
+    line.width -= line.words.pop()!.width;
+  }
+}
+
+function textOps(line: Line, x: number, y: number, size: number, color: string): string {
+  // Aufeinanderfolgende Wörter gleicher Schrift zu einem Text-Operator zusammenfassen
+  const segments: { text: string; bold: boolean }[] = [];
+  for (const word of line.words) {
+    const last = segments[segments.length - 1];
+    if (last && last.bold === word.bold) {
+      last.text += word.text;
+    } else {
+      segments.push({ text: word.text, bold: word.bold });
+    }
+  }
+
+  const ops = segments.map(segment => `/${segment.bold ? 'F2' : 'F1'} ${num(size)} Tf <${hex(segment.text)}> Tj`);
+  return `BT ${rgb(color)} rg ${num(x)} ${num(y)} Td ${ops.join(' ')} ET`;
+}
+
+// --- Serialisierung ---
+
+function serialize(pages: string[][], images: PdfImage[], options: PdfOptions): Uint8Array<ArrayBuffer> {
+  const chunks: Uint8Array[] = [];
+  const offsets: number[] = [];
+  let length = 0;
+  const write = (data: string | Uint8Array) => {
+    const bytes = typeof data === 'string' ? ascii(data) : data;
+    chunks.push(bytes);
+    length += bytes.length;
+  };
+  const object = (id: number, body: string | Uint8Array[]) => {
+    offsets[id] = length;
+    write(`${id} 0 obj\n`);
+    if (typeof body === 'string') {
+      write(body);
+    } else {
+      body.forEach(write);
+    }
+    write('\nendobj\n');
+  };
+  const stream = (dictionary: string, data: Uint8Array): Uint8Array[] =>
+    [ascii(`<< ${dictionary} /Length ${data.length} >>\nstream\n`), data, ascii('\nendstream')];
+
+  // Objekt-Nummern: 1 Katalog, 2 Seitenbaum, 3/4 Schriften, 5 Info, danach Bilder, dann je Seite Seite + Inhalt
+  const firstImage = 6;
+  const firstPage = firstImage + images.length;
+  const pageIds = pages.map((_, i) => firstPage + i * 2);
+
+  write('%PDF-1.4\n%\xE2\xE3\xCF\xD3\n');
+  object(1, '<< /Type /Catalog /Pages 2 0 R >>');
+  object(2, `<< /Type /Pages /Kids [${pageIds.map(id => `${id} 0 R`).join(' ')}] /Count ${pages.length} >>`);
+  object(3, '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>');
+  object(4, '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>');
+  object(5, `<< /Title <${hex(options.title)}> /Producer (Finanzhaus Navigator) >>`);
+
+  images.forEach((image, i) => {
+    object(firstImage + i, stream(
+      `/Type /XObject /Subtype /Image /Width ${image.width} /Height ${image.height} ` +
+      '/ColorSpace /DeviceRGB /BitsPerComponent 8 /Filter /DCTDecode',
+      image.jpeg
+    ));
+  });
+
+  const imageResources = images.map((_, i) => `/Im${i + 1} ${firstImage + i} 0 R`).join(' ');
+  pages.forEach((ops, i) => {
+    const footer: string[] = [];
+    const pageNumber = `${i + 1} / ${pages.length}`;
+    const footerY = MARGIN / 2;
+    if (options.footer) {
+      footer.push(textOps({ words: [{ text: options.footer, bold: false, width: 0 }], width: 0 }, MARGIN, footerY, FOOTER_SIZE, '#64748b'));
+    }
+    const numberX = PAGE_WIDTH - MARGIN - textWidth(pageNumber, false, FOOTER_SIZE);
+    footer.push(textOps({ words: [{ text: pageNumber, bold: false, width: 0 }], width: 0 }, numberX, footerY, FOOTER_SIZE, '#64748b'));
+
+    object(pageIds[i],
+      `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${num(PAGE_WIDTH)} ${num(PAGE_HEIGHT)}] ` +
+      `/Resources << /Font << /F1 3 0 R /F2 4 0 R >>${imageResources ? ` /XObject << ${imageResources} >>` : ''} >> ` +
+      `/Contents ${pageIds[i] + 1} 0 R >>`
+    );
+    object(pageIds[i] + 1, stream('', ascii([...ops, ...footer].join('\n'))));
+  });
+
+  const objectCount = firstPage + pages.length * 2;
+  const xref = length;
+  write(`xref\n0 ${objectCount}\n0000000000 65535 f \n`);
+  for (let id = 1; id < objectCount; id++) {
+    write(`${String(offsets[id]).padStart(10, '0')} 00000 n \n`);
+  }
+  write(`trailer\n<< /Size ${objectCount} /Root 1 0 R /Info 5 0 R >>\nstartxref\n${xref}\n%%EOF\n`);
+
+  const result = new Uint8Array(length);
+  let offset = 0;
+  for (const chunk of chunks) {
+    result.set(chunk, offset);
+    offset += chunk.length;
+  }
+  return result;
+}
+
+// --- Schrift ---
+
+// Zeichenbreiten (1/1000 em) von Helvetica bzw. Helvetica-Bold für ASCII 32–126 (aus den AFM-Dateien)
+const HELVETICA_WIDTHS = [
+  278, 278, 355, 556, 556, 889, 667, 191, 333, 333, 389, 584, 278, 333, 278, 278,
+  556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 278, 278, 584, 584, 584, 556,
+  1015, 667, 667, 722, 722, 667, 611, 778, 722, 278, 500, 667, 556, 833, 722, 778,
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 278, 278, 278, 469, 556,
+  333, 556, 556, 500, 556, 556, 278, 556, 556, 222, 222, 500, 222, 833, 556, 556,
+  556, 556, 333, 500, 278, 556, 500, 722, 500, 500, 500, 334, 260, 334, 584
+];
+const HELVETICA_BOLD_WIDTHS = [
+  278, 333, 474, 556, 556, 889, 722, 238, 333, 333, 389, 584, 278, 333, 278, 278,
+  556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 333, 333, 584, 584, 584, 611,
+  975, 722, 722, 722, 722, 667, 611, 778, 722, 278, 556, 722, 611, 833, 722, 778,
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 333, 278, 333, 584, 556,
+  333, 556, 611, 556, 611, 556, 333, 611, 611, 278, 278, 556, 278, 889, 611, 611,
+  611, 611, 389, 556, 333, 611, 556, 778, 556, 556, 500, 389, 280, 389, 584
+];
+
+// Breiten der übrigen WinAnsi-Zeichen, soweit sie nicht einem ASCII-Buchstaben mit Akzent entsprechen
+const SPECIAL_WIDTHS: Record<string, [number, number]> = {
+  'ß': [611, 611],
+  '€': [556, 556],
+  '•': [350, 350],
+  '–': [556, 556],
+  '—': [1000, 1000],
+  '„': [333, 500],
+  '“': [333, 500],
+  '”': [333, 500],
+  '‚': [222, 278],
+  '‘': [222, 278],
+  '’': [222, 278],
+  '…': [1000, 1000],
+  '›': [333, 333],
+  '‹': [333, 333],
+  '°': [400, 400],
+  '§': [556, 556],
+  ' ': [278, 278]
+};
+
+// WinAnsi-Codes der Zeichen zwischen 0x80 und 0x9F (Latin-1 ab 0xA0 ist identisch mit Unicode)
+const WIN_ANSI_SPECIALS: Record<string, number> = {
+  '€': 0x80, '‚': 0x82, 'ƒ': 0x83, '„': 0x84, '…': 0x85, '†': 0x86, '‡': 0x87, 'ˆ': 0x88,
+  '‰': 0x89, 'Š': 0x8a, '‹': 0x8b, 'Œ': 0x8c, 'Ž': 0x8e, '‘': 0x91, '’': 0x92, '“': 0x93,
+  '”': 0x94, '•': 0x95, '–': 0x96, '—': 0x97, '˜': 0x98, '™': 0x99, 'š': 0x9a, '›': 0x9b,
+  'œ': 0x9c, 'ž': 0x9e, 'Ÿ': 0x9f
+};
+
+const DEFAULT_WIDTH = 556;
+
+function textWidth(text: string, bold: boolean, size: number): number {
+  let width = 0;
+  for (const char of text) {
+    width += charWidth(char, bold);
+  }
+  return width * size / 1000;
+}
+
+function charWidth(char: string, bold: boolean): number {
+  const widths = bold ? HELVETICA_BOLD_WIDTHS : HELVETICA_WIDTHS;
+  const code = char.charCodeAt(0);
+  if (code >= 32 && code <= 126) return widths[code - 32];
+
+  const special = SPECIAL_WIDTHS[char];
+  if (special) return special[bold ? 1 : 0];
+
+  // Buchstaben mit Akzent (ä, é, …) sind so breit wie der Grundbuchstabe
+  const base = char.normalize('NFD').charCodeAt(0);
+  if (base >= 32 && base <= 126) return widths[base - 32];
+  return DEFAULT_WIDTH;
+}
+
+// Text als Hex-String in WinAnsi-Kodierung; nicht darstellbare Zeichen werden zu "?"
+function hex(text: string): string {
+  let result = '';
+  for (const char of text) {
+    const code = char.charCodeAt(0);
+    let byte = WIN_ANSI_SPECIALS[char];
+    if (byte === undefined) {
+      byte = (code >= 32 && code <= 126) || (code >= 0xa0 && code <= 0xff) ? code : 0x3f;
+    }
+    result += byte.toString(16).padStart(2, '0');
+  }
+  return result.toUpperCase();
+}
+
+function rgb(color: string): string {
+  const match = /^#?([0-9a-f]{2})([0-9a-f]{2})([0-9a-f]{2})$/i.exec(color);
+  if (!match) return '0 0 0';
+  return match.slice(1).map(part => num(parseInt(part, 16) / 255)).join(' ');
+}
+
+function ascii(text: string): Uint8Array {
+  const bytes = new Uint8Array(text.length);
+  for (let i = 0; i < text.length; i++) {
+    bytes[i] = text.charCodeAt(i) & 0xff;
+  }
+  return bytes;
+}
+
+function num(value: number): string {
+  return String(Math.round(value * 100) / 100);
+}
@@ -0,0 +1,131 @@
+/**
+ * Präsentationen (geführte Touren): Abfolge von Schritten, die jeweils eine Ansicht der Karte herstellen.
+ *
+ *   {
+ *     "version": 1,
+ *     "name": "Investitionsfinanzierung",
+ *     "dataMode": "produkte",
+ *     "steps": [
+ *       {
+ *         "title": "Finanzierung",
+ *         "expandedNodes": ["l1_finanzierung"],
+ *         "activeCategories": ["finanzierung"],
+ *         "focusedNodeIds": [],
+ *         "infoNodeId": null,
+ *         "zoomLevel": 0.8,
+ *         "panOffset": { "x": 0, "y": 0 }
+ *       },
+ *       …
+ *     ]
+ *   }
+ *
+ * Node- und Kategorie-IDs, die es in den Daten nicht (mehr) gibt, werden beim Abspielen übersprungen.
+ */
+import { formatErrorList, isObject, isPosition } from './json-guards';
+
+export const TOUR_FILE_VERSION = 1;
+
+export interface TourStep {
+  /** Beschriftung in der Schrittliste und in der Präsentationsleiste */
+  title: string;
+  expandedNodes: string[];
+  activeCategories: string[];
+  /** Nodes im (Multi-)Fokus */
+  focusedNodeIds: string[];
+  /** Node, dessen Tooltip im Info-Panel geöffnet ist */
+  infoNodeId: string | null;
+  zoomLevel: number;
+  panOffset: { x: number; y: number };
+}
+
+export interface TourFile {
+  version: number;
+  name: string;
+  /** Datenmodus, in dem die Tour erstellt wurde */
+  dataMode: string;
+  steps: TourStep[];
+}
+
+/** Gespeicherte Tour (localStorage, siehe TourService) */
+export interface Tour extends Omit<TourFile, 'version'> {
+  id: string;
+  updatedAt: number;
+}
+
+export function createTourFile(name: string, dataMode: string, steps: TourStep[]): TourFile {
+  return { version: TOUR_FILE_VERSION, name, dataMode, steps };
+}
+
+/** Prüft eine Tour-Datei und wirft einen Error mit den ersten Verstößen (inkl. JSON-Pfad). */
+export function parseTourFile(json: unknown): TourFile {
+  if (!isObject(json)) {
+    throw new Error('Tour muss ein JSON-Objekt sein');
+  }
+
+  const version = json['version'] ?? TOUR_FILE_VERSION;
+  if (version !== TOUR_FILE_VERSION) {
+    throw new Error(`Tour-Version ${JSON.stringify(version)} wird nicht unterstützt (erwartet ${TOUR_FILE_VERSION})`);
+  }
+
+  const errors: string[] = [];
+  const error = (path: string, message: string) => errors.push(`${path}: ${message}`);
+
+  for (const key of ['name', 'dataMode'] as const) {
+    if (typeof json[key] !== 'string' || !json[key]) {
+      error(`$.${key}`, 'Erwartet einen nicht leeren String');
+    }
+  }
+
+  const steps = json['steps'];
+  if (!Array.isArray(steps)) {
+    error('$.steps', 'Erwartet ein Array von Schritten');
+  } else {
+    steps.forEach((step, index) => validateStep(step, `$.steps[${index}]`, error));
+  }
+
+  if (errors.length > 0) {
+    throw new Error(formatErrorList('Tour', errors));
+  }
+
+  return {
+    version: TOUR_FILE_VERSION,
+    name: json['name'] as string,
+    dataMode: json['dataMode'] as string,
+    steps: (steps as Record<string, unknown>[]).map(step => ({
+      title: step['title'] as string,
+      expandedNodes: step['expandedNodes'] as string[],
+      activeCategories: step['activeCategories'] as string[],
+      focusedNodeIds: step['focusedNodeIds'] as string[],
+      infoNodeId: (step['infoNodeId'] ?? null) as string | null,
+      zoomLevel: step['zoomLevel'] as number,
+      panOffset: step['panOffset'] as TourStep['panOffset']
+    }))
+  };
+}
+
+function validateStep(step: unknown, path: string, error: (path: string, message: string) => void): void {
+  if (!isObject(step)) {
+    error(path, 'Erwartet ein Objekt');
+    return;
+  }
+  if (typeof step['title'] !== 'string') {
+    error(`${path}.title`, 'Erwartet einen String');
+  }
+  for (const key of ['expandedNodes', 'activeCategories', 'focusedNodeIds'] as const) {
+    const list = step[key];
+    if (!Array.isArray(list) || list.some(item => typeof item !== 'string')) {
+      error(`${path}.${key}`, 'Erwartet ein Array von IDs');
+    }
+  }
+  const infoNodeId = step['infoNodeId'];
+  if (infoNodeId !== undefined && infoNodeId !== null && typeof infoNodeId !== 'string') {
+    error(`${path}.infoNodeId`, 'Erwartet eine Node-ID oder null');
+  }
+  const zoomLevel = step['zoomLevel'];
+  if (typeof zoomLevel !== 'number' || !(zoomLevel > 0)) {
+    error(`${path}.zoomLevel`, 'Erwartet eine Zahl größer 0');
+  }
+  if (!isPosition(step['panOffset'])) {
+    error(`${path}.panOffset`, 'Erwartet { "x": Zahl, "y": Zahl }');
+  }
+}
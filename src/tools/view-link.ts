@@ -0,0 +1,152 @@
+/**
+ * Teilbare Links auf eine Ansicht (Datenmodus, Sprache, expandierte/fokussierte Nodes, Filter, Zoom und Pan).
+ *
+ * Der Zustand steht kompakt im URL-Hash, damit Links auch in E-Mails nicht umbrechen, z.B.
+ *
+ *   #v=1&m=produkte&l=de&t=1x3k9a&e=1.2.1c&c=gruendung&z=0.85&p=-120_40
+ *
+ * Nodes werden nicht über ihre (langen) IDs, sondern über ihre Position im Baum (Preorder, Base36)
+ * referenziert. Die Prüfsumme t über alle IDs erkennt, ob sich die Daten seit dem Erstellen geändert haben.
+ */
+import type { Node } from '../services/data.service';
+
+export const VIEW_LINK_VERSION = 1;
+
+export interface ViewLinkState {
+  dataMode: string;
+  language: string;
+  expandedNodes: string[];
+  activeCategories: string[];
+  selectedL2NodeIds: string[];
+  focusedNodeIds: string[];
+  zoomLevel: number;
+  panOffset: { x: number; y: number };
+}
+
+export type ViewLinkNodes = Pick<ViewLinkState, 'expandedNodes' | 'selectedL2NodeIds' | 'focusedNodeIds'>;
+
+/** Gelesener Link, Nodes noch als Positionen im Baum */
+export interface ViewLink {
+  dataMode: string;
+  language: string;
+  /** Prüfsumme des Baums, für den die Positionen gelten */
+  tree: string;
+  expandedNodes: number[];
+  activeCategories: string[];
+  selectedL2NodeIds: number[];
+  focusedNodes: number[];
+  zoomLevel: number | null;
+  panOffset: { x: number; y: number } | null;
+}
+
+const LIST_SEPARATOR = '.';
+const PAN_SEPARATOR = '_';
+
+/** Erzeugt den Hash (ohne "#") für den übergebenen Zustand. */
+export function encodeViewLink(state: ViewLinkState, root: Node): string {
+  const ids = collectIds(root);
+  const positions = new Map(ids.map((id, i) => [id, i]));
+  const encodeNodes = (nodeIds: string[]) => nodeIds
+    .map(id => positions.get(id))
+    .filter((i): i is number => i !== undefined)
+    .sort((a, b) => a - b)
+    .map(i => i.toString(36))
+    .join(LIST_SEPARATOR);
+
+  const params = new URLSearchParams();
+  params.set('v', String(VIEW_LINK_VERSION));
+  params.set('m', state.dataMode);
+  params.set('l', state.language);
+  params.set('t', checksum(ids));
+  const lists: [string, string][] = [
+    ['e', encodeNodes(state.expandedNodes)],
+    ['c', state.activeCategories.join(LIST_SEPARATOR)],
+    ['s', encodeNodes(state.selectedL2NodeIds)],
+    // Reihenfolge des Fokus bleibt erhalten (erster Node bestimmt das Layout)
+    ['f', state.focusedNodeIds.map(id => positions.get(id)?.toString(36)).filter(Boolean).join(LIST_SEPARATOR)]
+  ];
+  for (const [key, value] of lists) {
+    if (value) params.set(key, value);
+  }
+  params.set('z', String(Math.round(state.zoomLevel * 1000) / 1000));
+  params.set('p', `${Math.round(state.panOffset.x)}${PAN_SEPARATOR}${Math.round(state.panOffset.y)}`);
+
+  return params.toString();
+}
+
+/** Liest einen Hash (mit oder ohne "#"). Liefert null, wenn er keinen Link dieser Version enthält. */
+export function parseViewLink(hash: string): ViewLink | null {
+  const params = new URLSearchParams(hash.replace(/^#/, ''));
+  if (params.get('v') !== String(VIEW_LINK_VERSION)) return null;
+
+  const dataMode = params.get('m');
+  const language = params.get('l');
+  if (!dataMode || !language) return null;
+
+  const zoom = Number(params.get('z'));
+  const pan = (params.get('p') ?? '').split(PAN_SEPARATOR).map(Number);
+
+  return {
+    dataMode,
+    language,
+    tree: params.get('t') ?? '',
+    expandedNodes: parseNodeList(params.get('e')),
+    activeCategories: splitList(params.get('c')),
+    selectedL2NodeIds: parseNodeList(params.get('s')),
+    focusedNodes: parseNodeList(params.get('f')),
+    zoomLevel: params.has('z') && Number.isFinite(zoom) && zoom > 0 ? zoom : null,
+    panOffset: pan.length === 2 && pan.every(Number.isFinite) ? { x: pan[0], y: pan[1] } : null
+  };
+}
+
+/**
+ * Löst die Node-Positionen eines Links gegen den aktuellen Baum auf.
+ * Passt die Prüfsumme nicht (Daten geändert), werden keine Nodes übernommen.
+ */
+export function resolveViewLink(link: ViewLink, root: Node): { nodes: ViewLinkNodes; treeChanged: boolean } {
+  const ids = collectIds(root);
+  if (checksum(ids) !== link.tree) {
+    return { nodes: { expandedNodes: [], selectedL2NodeIds: [], focusedNodeIds: [] }, treeChanged: true };
+  }
+
+  const resolve = (positions: number[]) => positions.map(i => ids[i]).filter(id => id !== undefined);
+  return {
+    nodes: {
+      expandedNodes: resolve(link.expandedNodes),
+      selectedL2NodeIds: resolve(link.selectedL2NodeIds),
+      focusedNodeIds: resolve(link.focusedNodes)
+    },
+    treeChanged: false
+  };
+}
+
+// IDs aller Nodes in Preorder (Root = Position 0)
+function collectIds(root: Node): string[] {
+  const ids: string[] = [];
+  const walk = (node: Node) => {
+    ids.push(node.id);
+    node.children?.forEach(walk);
+  };
+  walk(root);
+  return ids;
+}
+
+// FNV-1a (32 Bit) über alle IDs, Base36
+function checksum(ids: string[]): string {
+  let hash = 0x811c9dc5;
+  for (const char of ids.join('\n')) {
+    hash ^= char.codePointAt(0)!;
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(36);
+}
+
+function splitList(value: string | null): string[] {
+  return value ? value.split(LIST_SEPARATOR).filter(item => item.length > 0) : [];
+}
+
+function parseNodeList(value: string | null): number[] {
+  return splitList(value)
+    .map(item => parseInt(item, 36))
+    .filter(i => Number.isInteger(i) && i >= 0);
+}